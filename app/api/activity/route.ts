@@ -0,0 +1,22 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { getDayActivity } from '@/lib/dayActivityProvider';
+import { freshnessHeaders, withLastGood } from '@/lib/upstreamCache';
+
+/**
+ * GET /api/activity?date=YYYY-MM-DD
+ * Public commits, PRs and issues for one calendar day.
+ */
+export async function GET(request: NextRequest) {
+  const date = request.nextUrl.searchParams.get('date');
+  if (!date || !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+    return NextResponse.json({ error: 'Invalid date', items: [] }, { status: 400 });
+  }
+
+  try {
+    const result = await withLastGood(`activity:${date}`, () => getDayActivity(date));
+    return NextResponse.json(result.data, { headers: freshnessHeaders(result) });
+  } catch (error) {
+    console.error('Day activity API error:', error);
+    return NextResponse.json({ date, items: [] }, { status: 500 });
+  }
+}
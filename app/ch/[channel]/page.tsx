@@ -0,0 +1,26 @@
+/**
+ * ═══════════════════════════════════════════════════
+ * Channel Short Link
+ * /ch/4 or /ch/projects — forwards to the canonical
+ * /?ch=<name> URL so every channel lives on one page.
+ * ═══════════════════════════════════════════════════
+ */
+
+import { notFound, redirect } from 'next/navigation';
+import { channels } from '@/lib/channelData';
+import { channelPath, resolveChannel } from '@/lib/channelRoutes';
+
+export function generateStaticParams() {
+  return channels.map((channel) => ({ channel: channel.name }));
+}
+
+export default function ChannelShortLink({
+  params,
+}: {
+  params: { channel: string };
+}) {
+  const channel = resolveChannel(params.channel);
+  if (!channel) notFound();
+
+  redirect(channelPath(channel.number));
+}
@@ -4,15 +4,36 @@
  * Entry point that renders the CRT Monitor interface.
  * The entire portfolio is a single-page application
  * controlled through the TV channel metaphor.
+ * A ?ch=<name> link powers the TV straight onto that
+ * channel. GitHub data is fetched here on the server,
+ * handed to the TV as initial data, and rendered into a
+ * visually hidden transcript for crawlers. A skip link
+ * leads keyboard and screen-reader users to /plain.
  * ═══════════════════════════════════════════════════
  */
 
 import CRTMonitor from '@/components/CRTMonitor';
+import ChannelTranscript from '@/components/ChannelTranscript';
+import { CHANNEL_PARAM, resolveChannel } from '@/lib/channelRoutes';
+import { getInitialChannelData } from '@/lib/initialChannelData';
+
+export default async function Home({
+  searchParams,
+}: {
+  searchParams: Record<string, string | string[] | undefined>;
+}) {
+  const initialChannel = resolveChannel(searchParams[CHANNEL_PARAM])?.number;
+  const initialData = await getInitialChannelData();
 
-export default function Home() {
   return (
-    <main>
-      <CRTMonitor />
-    </main>
+    <>
+      <a href="/plain" className="skip-link">
+        Skip to the plain, accessible version
+      </a>
+      <main>
+        <CRTMonitor initialChannel={initialChannel} initialData={initialData} />
+        <ChannelTranscript initialData={initialData} />
+      </main>
+    </>
   );
 }
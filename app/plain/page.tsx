@@ -0,0 +1,56 @@
+/**
+ * ═══════════════════════════════════════════════════
+ * Plain Portfolio Page (/plain)
+ * The whole portfolio as one semantic document: every
+ * channel from lib/channelData plus the GitHub data,
+ * with no dial, long presses, flicker or typewriter.
+ * Linked from the skip link on the TV page.
+ * ═══════════════════════════════════════════════════
+ */
+
+import type { Metadata } from 'next';
+import ChannelTranscript, { transcriptSectionId } from '@/components/ChannelTranscript';
+import { channels, personalInfo } from '@/lib/channelData';
+import { getInitialChannelData } from '@/lib/initialChannelData';
+
+export const metadata: Metadata = {
+  title: `${personalInfo.name} | Portfolio (plain version)`,
+  description: `Accessible, plain-HTML version of ${personalInfo.name}'s portfolio.`,
+};
+
+export default async function PlainPortfolio() {
+  const initialData = await getInitialChannelData();
+
+  return (
+    <div className="plain-page">
+      <a href="#content" className="skip-link">
+        Skip to content
+      </a>
+
+      <header>
+        <p>
+          <a href="/">Switch to the CRT TV version</a>
+        </p>
+        <nav aria-label="Channels">
+          <ol>
+            {channels.map((channel) => (
+              <li key={channel.name}>
+                <a href={`#${transcriptSectionId(channel.name)}`}>{channel.label}</a>
+              </li>
+            ))}
+          </ol>
+        </nav>
+      </header>
+
+      <main id="content" tabIndex={-1}>
+        <ChannelTranscript initialData={initialData} visible />
+      </main>
+
+      <footer>
+        <p>
+          © {personalInfo.name} · <a href={personalInfo.githubUrl}>GitHub</a>
+        </p>
+      </footer>
+    </div>
+  );
+}
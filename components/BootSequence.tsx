@@ -5,19 +5,46 @@
  * Boot Sequence Animation Component
  * Simulates CRT TV power-on: thin horizontal line
  * expands vertically with phosphor glow, then reveals
- * the main content.
+ * the main content. In reduced motion the screen just
+ * fades up from black, without the flash or blinking.
  * ═══════════════════════════════════════════════════
  */
 
-import { motion, AnimatePresence } from 'framer-motion';
+import { motion, AnimatePresence, useReducedMotionConfig } from 'framer-motion';
+import { usePhosphorTheme } from '@/lib/usePhosphorTheme';
 
 interface BootSequenceProps {
   isBooting: boolean;
-  greenMode: boolean;
 }
 
-export default function BootSequence({ isBooting, greenMode }: BootSequenceProps) {
-  const glowColor = greenMode ? '#33ff33' : '#ff9f43';
+export default function BootSequence({ isBooting }: BootSequenceProps) {
+  const glowColor = usePhosphorTheme().accent;
+  const reducedMotion = useReducedMotionConfig();
+
+  if (reducedMotion) {
+    return (
+      <AnimatePresence>
+        {isBooting && (
+          <motion.div
+            className="absolute inset-0 z-50 flex items-center justify-center bg-crt-dark"
+            initial={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            transition={{ duration: 0.3 }}
+          >
+            <motion.p
+              className="font-display text-lg tracking-widest"
+              style={{ color: glowColor }}
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              transition={{ duration: 0.4, ease: 'easeOut' }}
+            >
+              INITIALIZING...
+            </motion.p>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    );
+  }
 
   return (
     <AnimatePresence>
@@ -9,48 +9,167 @@
  * sequence, channel switching, and CRT effects.
  * 
  * Handles:
- * - Power on/off with boot animation
- * - Channel switching with static transitions
- * - Keyboard navigation (arrows, number keys)
+ * - Power on/off with boot animation (lib/tvPower state machine)
+ * - Channel switching with static transitions (lib/signalStrength)
+ * - Keyboard navigation (arrows, multi-digit keypad entry)
+ * - Deep links and browser history (?ch=<name>)
  * - Sound effects coordination
- * - Green phosphor easter egg
- * - Screen CRT visual effects (scanlines, flicker, etc.)
+ * - Phosphor themes (lib/phosphorThemes), cycled by a long power press
+ * - Motion safety (prefers-reduced-motion + MOTION override)
+ * - Settings OSD (MENU): picture layers & sound effects
+ * - Remembered preferences (lib/viewerPreferences)
+ * - Screen CRT visual effects: the WebGL shader (lib/crtShader),
+ *   drawing the picture itself from snapshots where it can,
+ *   else the CSS scanline/glass/vignette layers
  * ═══════════════════════════════════════════════════
  */
 
-import { useState, useEffect, useCallback, useRef } from 'react';
-import { motion, AnimatePresence } from 'framer-motion';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import {
+  motion,
+  AnimatePresence,
+  MotionConfig,
+  useReducedMotion,
+  useTransform,
+} from 'framer-motion';
 import BootSequence from './BootSequence';
 import StaticOverlay from './StaticOverlay';
 import TVControls from './TVControls';
+import TVMenu from './TVMenu';
+import VolumeOSD from './VolumeOSD';
+import CRTShaderLayer from './CRTShaderLayer';
 import ChannelContent from './ChannelContent';
-import { channels } from '@/lib/channelData';
+import HiddenStationCard from './HiddenStationCard';
+import { getChannel, nextChannel, previousChannel } from '@/lib/channelData';
+import { channelFromSearch, channelPath } from '@/lib/channelRoutes';
+import { useChannelKeypad, KEYPAD_MAX_DIGITS } from '@/lib/useChannelKeypad';
+import {
+  useTVPower,
+  nextTVPowerStatus,
+  reducedMotionTVPowerDurations,
+  tvPowerDurations,
+} from '@/lib/tvPower';
+import {
+  MOTION_PREFERENCE_DESCRIPTIONS,
+  nextMotionPreference,
+  resolveReducedMotion,
+  toMotionConfig,
+  type MotionPreference,
+} from '@/lib/motionSafety';
+import {
+  DEFAULT_PHOSPHOR_THEME,
+  nextPhosphorTheme,
+  phosphorCssVariables,
+  phosphorThemes,
+  type PhosphorThemeId,
+} from '@/lib/phosphorThemes';
+import { PhosphorThemeContext } from '@/lib/usePhosphorTheme';
+import {
+  adjustTVSetting,
+  defaultTVSettings,
+  describeTVSetting,
+  tvMenuItems,
+  tvSettingsCssVariables,
+  type TVSettings,
+} from '@/lib/tvSettings';
+import { crtShaderParams, detectWebGL } from '@/lib/crtShader';
+import { SignalLossContext, useSignalStrength } from '@/lib/signalStrength';
+import { ghostFilter } from '@/lib/staticNoise';
+import { bandPosition, formatFrequency, tuneTo } from '@/lib/tuning';
+import { readPreferences, writePreferences } from '@/lib/viewerPreferences';
+import { primeCache } from '@/lib/dataCache';
+import {
+  contributionResource,
+  pinnedReposResource,
+  type InitialChannelData,
+} from '@/lib/githubApi';
 import {
   playPowerOn,
   playPowerOff,
   playChannelBeep,
   playStaticNoise,
   initAudio,
+  setSoundEffectsEnabled,
 } from '@/lib/soundEffects';
 
-export default function CRTMonitor() {
+interface CRTMonitorProps {
+  /** Channel from a deep link — powers the TV on straight to it */
+  initialChannel?: number;
+  /** GitHub data rendered by the server, seeded into the data cache */
+  initialData?: InitialChannelData;
+}
+
+export default function CRTMonitor({ initialChannel, initialData }: CRTMonitorProps) {
   // ═══════════ State ═══════════
-  const [isPoweredOn, setIsPoweredOn] = useState(false);
-  const [isBooting, setIsBooting] = useState(false);
-  const [isShuttingDown, setIsShuttingDown] = useState(false);
-  const [currentChannel, setCurrentChannel] = useState(1);
-  const [showStatic, setShowStatic] = useState(false);
-  const [greenMode, setGreenMode] = useState(false);
+  // Reduced motion also shortens the timed power phases
+  const [motionPreference, setMotionPreference] = useState<MotionPreference>('system');
+  const systemPrefersReducedMotion = useReducedMotion();
+  const reducedMotion = resolveReducedMotion(motionPreference, systemPrefersReducedMotion);
+  const [power, dispatchPower] = useTVPower(
+    reducedMotion ? reducedMotionTVPowerDurations : tvPowerDurations
+  );
+  const [currentChannel, setCurrentChannel] = useState(initialChannel ?? 1);
+  // Fine tuning: where the dial sits between channels, or null when on one
+  const [fineFrequency, setFineFrequency] = useState<number | null>(null);
+  const tuning = fineFrequency === null ? null : tuneTo(fineFrequency);
+  const [themeId, setThemeId] = useState<PhosphorThemeId>(DEFAULT_PHOSPHOR_THEME);
+  const theme = phosphorThemes[themeId];
+  const [skipBoot, setSkipBoot] = useState(false);
+  const [tvSettings, setTVSettings] = useState<TVSettings>(defaultTVSettings);
+  // Settings OSD: open, and which row is selected
+  const [menuOpen, setMenuOpen] = useState(false);
+  const [menuIndex, setMenuIndex] = useState(0);
+  // Known only after mount — the server render always starts with the CSS layers
+  const [webglAvailable, setWebglAvailable] = useState(false);
   const [audioInitialized, setAudioInitialized] = useState(false);
+  // Text for the screen-reader live region
+  const [announcement, setAnnouncement] = useState('');
 
   // ═══════════ Music Player State ═══════════
   const [isPlaying, setIsPlaying] = useState(false);
   const [volume, setVolume] = useState(0.5);
+  const [muted, setMuted] = useState(false);
   const musicRef = useRef<HTMLAudioElement | null>(null);
+  // Green-bar volume OSD, shown on each change and faded out after a pause
+  const [volumeOsdVisible, setVolumeOsdVisible] = useState(false);
+  const volumeOsdTimer = useRef<NodeJS.Timeout | null>(null);
 
   // Track the actual displayed channel (for smooth transitions)
-  const [displayChannel, setDisplayChannel] = useState(1);
-  const staticTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const [displayChannel, setDisplayChannel] = useState(initialChannel ?? 1);
+
+  // Power phases derived from the state machine
+  const isPoweredOn = power.status !== 'off';
+  const isBooting = power.status === 'booting';
+  const isShuttingDown = power.status === 'shutting-down';
+  const canTune = power.status === 'on' || power.status === 'switching';
+  // Fine tuning needs a settled picture to tune across
+  const canFineTune = power.status === 'on';
+
+  // ═══════════ Signal ═══════════
+  // Snow while tuning or booting, clearing once the set is on;
+  // weak while any NO SIGNAL card is showing, and following
+  // the dial while fine tuning
+  const [signalLosses, setSignalLosses] = useState(0);
+  const reportSignalLoss = useCallback((change: 1 | -1) => {
+    setSignalLosses((count) => count + change);
+  }, []);
+  const signalStrength = useSignalStrength(
+    power,
+    signalLosses > 0,
+    reducedMotion,
+    tuning?.signalStrength ?? null
+  );
+  const ghosting = useTransform(signalStrength, ghostFilter);
+
+  // ═══════════ Server Data ═══════════
+  // Seed the data cache so CH 4/CH 5 open without a spinner (unless
+  // this session already holds something newer)
+  useEffect(() => {
+    if (initialData?.pinnedRepos) primeCache(pinnedReposResource, initialData.pinnedRepos);
+    if (initialData?.contributions) {
+      primeCache(contributionResource(), initialData.contributions);
+    }
+  }, [initialData]);
 
   // ═══════════ Audio Init ═══════════
   // Initialize audio on first user interaction
@@ -65,7 +184,7 @@ export default function CRTMonitor() {
   const handlePowerToggle = useCallback(() => {
     ensureAudio();
 
-    if (isPoweredOn) {
+    if (nextTVPowerStatus(power.status, 'POWER_PRESSED') === 'shutting-down') {
       // POWER OFF — screen collapses
       playPowerOff();
       // Stop music when powering off
@@ -74,31 +193,81 @@ export default function CRTMonitor() {
         musicRef.current.currentTime = 0;
         setIsPlaying(false);
       }
-      setIsShuttingDown(true);
-      setTimeout(() => {
-        setIsPoweredOn(false);
-        setIsShuttingDown(false);
-        setIsBooting(false);
-      }, 700);
     } else {
       // POWER ON — boot sequence
       playPowerOn();
-      setIsPoweredOn(true);
-      setIsBooting(true);
-      // Boot sequence duration: 2.5 seconds
-      setTimeout(() => {
-        setIsBooting(false);
-      }, 2500);
     }
+    dispatchPower('POWER_PRESSED');
+  }, [power.status, dispatchPower, ensureAudio]);
+
+  // ═══════════ Settings Menu (OSD) ═══════════
+  const handleMenuToggle = useCallback(() => {
+    if (!isPoweredOn) return;
+    ensureAudio();
+    setMenuOpen((open) => !open);
+    setMenuIndex(0);
   }, [isPoweredOn, ensureAudio]);
 
+  const handleMenuNavigate = useCallback(
+    (direction: 1 | -1) => {
+      const count = tvMenuItems.length;
+      const next = (menuIndex + direction + count) % count;
+      setMenuIndex(next);
+      setAnnouncement(tvMenuItems[next].label);
+    },
+    [menuIndex]
+  );
+
+  /** VOL +/− on the selected row: step a level, flip a toggle, cycle the theme */
+  const handleMenuAdjust = useCallback(
+    (direction: 1 | -1) => {
+      const item = tvMenuItems[menuIndex];
+      if (item.id === 'theme') {
+        const next = nextPhosphorTheme(themeId, direction);
+        setThemeId(next);
+        setAnnouncement(`${item.label} ${phosphorThemes[next].label}`);
+        return;
+      }
+      const next = adjustTVSetting(tvSettings, item.id, direction);
+      setTVSettings(next);
+      setAnnouncement(`${item.label} ${describeTVSetting(next, item.id)}`);
+    },
+    [menuIndex, themeId, tvSettings]
+  );
+
+  // The OSD and any fine tuning go with the picture
+  useEffect(() => {
+    if (isPoweredOn) return;
+    setMenuOpen(false);
+    setFineFrequency(null);
+  }, [isPoweredOn]);
+
+  // MUTE silences the effects along with the music
+  useEffect(() => {
+    setSoundEffectsEnabled(tvSettings.soundEffects && !muted);
+  }, [tvSettings.soundEffects, muted]);
+
+  // ═══════════ CRT Shader ═══════════
+  useEffect(() => {
+    setWebglAvailable(detectWebGL());
+  }, []);
+
+  const handleShaderUnavailable = useCallback(() => setWebglAvailable(false), []);
+  // What the shader redraws: the picture, without the OSDs drawn over it
+  const pictureRef = useRef<HTMLDivElement>(null);
+  const shaderActive = tvSettings.shader && webglAvailable;
+  const shaderParams = useMemo(
+    () => crtShaderParams(tvSettings, theme, reducedMotion),
+    [tvSettings, theme, reducedMotion]
+  );
+
   // ═══════════ Music Controls ═══════════
   const handleMusicToggle = useCallback(() => {
     if (!isPoweredOn) return;
     if (!musicRef.current) {
       musicRef.current = new Audio('/music.mp3');
       musicRef.current.loop = true;
-      musicRef.current.volume = volume;
+      musicRef.current.volume = muted ? 0 : volume;
     }
     if (isPlaying) {
       musicRef.current.pause();
@@ -106,25 +275,53 @@ export default function CRTMonitor() {
     } else {
       musicRef.current.play().then(() => setIsPlaying(true)).catch(() => {});
     }
-  }, [isPlaying, volume, isPoweredOn]);
+  }, [isPlaying, volume, muted, isPoweredOn]);
+
+  useEffect(() => {
+    if (musicRef.current) musicRef.current.volume = muted ? 0 : volume;
+  }, [volume, muted]);
 
+  const showVolumeOsd = useCallback(() => {
+    setVolumeOsdVisible(true);
+    if (volumeOsdTimer.current) clearTimeout(volumeOsdTimer.current);
+    volumeOsdTimer.current = setTimeout(() => setVolumeOsdVisible(false), 2000);
+  }, []);
+
+  useEffect(() => {
+    return () => {
+      if (volumeOsdTimer.current) clearTimeout(volumeOsdTimer.current);
+    };
+  }, []);
+
+  // Turning the volume either way also lifts MUTE, like a real set
   const handleVolumeUp = useCallback(() => {
     if (!isPoweredOn) return;
-    setVolume((prev) => {
-      const next = Math.min(1, prev + 0.1);
-      if (musicRef.current) musicRef.current.volume = next;
-      return next;
-    });
-  }, [isPoweredOn]);
+    if (menuOpen) {
+      handleMenuAdjust(1);
+      return;
+    }
+    setVolume((prev) => Math.min(1, Math.round(prev * 10 + 1) / 10));
+    setMuted(false);
+    showVolumeOsd();
+  }, [isPoweredOn, menuOpen, handleMenuAdjust, showVolumeOsd]);
 
   const handleVolumeDown = useCallback(() => {
     if (!isPoweredOn) return;
-    setVolume((prev) => {
-      const next = Math.max(0, prev - 0.1);
-      if (musicRef.current) musicRef.current.volume = next;
-      return next;
-    });
-  }, [isPoweredOn]);
+    if (menuOpen) {
+      handleMenuAdjust(-1);
+      return;
+    }
+    setVolume((prev) => Math.max(0, Math.round(prev * 10 - 1) / 10));
+    setMuted(false);
+    showVolumeOsd();
+  }, [isPoweredOn, menuOpen, handleMenuAdjust, showVolumeOsd]);
+
+  const handleMuteToggle = useCallback(() => {
+    if (!isPoweredOn) return;
+    setMuted(!muted);
+    setAnnouncement(muted ? 'Sound on' : 'Muted');
+    showVolumeOsd();
+  }, [isPoweredOn, muted, showVolumeOsd]);
 
   // Cleanup music on unmount
   useEffect(() => {
@@ -136,102 +333,330 @@ export default function CRTMonitor() {
     };
   }, []);
 
-  // ═══════════ Green Mode Easter Egg ═══════════
-  const handlePowerLongPress = useCallback(() => {
+  // ═══════════ Phosphor Themes ═══════════
+  const handleThemeCycle = useCallback(() => {
     ensureAudio();
-    setGreenMode((prev) => !prev);
+    const next = nextPhosphorTheme(themeId);
+    setThemeId(next);
+    setAnnouncement(`${phosphorThemes[next].label} phosphor`);
     // Play a confirmation sound
     playChannelBeep();
-  }, [ensureAudio]);
+  }, [ensureAudio, themeId]);
+
+  // ═══════════ Motion Safety ═══════════
+  const handleMotionToggle = useCallback(() => {
+    const next = nextMotionPreference(motionPreference);
+    setMotionPreference(next);
+    setAnnouncement(MOTION_PREFERENCE_DESCRIPTIONS[next]);
+  }, [motionPreference]);
 
   // ═══════════ Channel Change ═══════════
   const handleChannelChange = useCallback(
-    (newChannel: number) => {
-      if (!isPoweredOn || isBooting || newChannel === currentChannel) return;
+    (newChannel: number, { fromHistory = false }: { fromHistory?: boolean } = {}) => {
+      // Re-tuning the current channel only makes sense off a fine-tuned dial
+      if (!canTune || (newChannel === currentChannel && fineFrequency === null)) return;
+      // Ignore numbers that aren't on the dial
+      if (!getChannel(newChannel)) return;
       ensureAudio();
 
-      // Clamp channel to valid range
-      const ch = Math.max(1, Math.min(newChannel, channels.length));
+      const ch = newChannel;
+      setFineFrequency(null);
+
+      // Every tune is a history entry, so back/forward recalls channels
+      if (!fromHistory) {
+        window.history.pushState({ channel: ch }, '', channelPath(ch));
+      }
 
       // Play static/white noise burst for channel change
       playStaticNoise();
 
-      // Show static overlay for 300ms
-      setShowStatic(true);
+      // Static overlay shows while the machine is in its switching phase
       setCurrentChannel(ch);
+      dispatchPower('SWITCH_STARTED');
+
+      // Warm the data of this channel and its neighbours behind the static
+      [ch, nextChannel(ch), previousChannel(ch)].forEach((n) => getChannel(n)?.loader?.());
+    },
+    [canTune, currentChannel, dispatchPower, ensureAudio, fineFrequency]
+  );
+
+  // ═══════════ Fine Tuning ═══════════
+  // Shift-drag on the dial: the picture follows the frequency,
+  // snowy and ghosted between stations
+  const lastTuningHissRef = useRef(0);
+  const handleFineTune = useCallback(
+    (frequency: number) => {
+      if (!canFineTune) return;
+      ensureAudio();
+      setFineFrequency(frequency);
 
-      // Clear any pending timeout
-      if (staticTimeoutRef.current) {
-        clearTimeout(staticTimeoutRef.current);
+      // Short bursts of hiss pitched to the band, a few times a second
+      const now = performance.now();
+      if (now - lastTuningHissRef.current > 120) {
+        lastTuningHissRef.current = now;
+        playStaticNoise({
+          bandPosition: bandPosition(frequency),
+          signalStrength: tuneTo(frequency).signalStrength,
+        });
       }
+    },
+    [canFineTune, ensureAudio]
+  );
 
-      staticTimeoutRef.current = setTimeout(() => {
-        setShowStatic(false);
-        setDisplayChannel(ch);
-      }, 300);
+  // Letting go locks onto a channel that's coming in clearly;
+  // anywhere else — a hidden station, or between — the dial stays put
+  const handleFineTuneEnd = useCallback(() => {
+    if (fineFrequency === null) return;
+    const { locked, hiddenStation, nearestChannel } = tuneTo(fineFrequency);
+    if (!locked) {
+      setAnnouncement(`${formatFrequency(fineFrequency)}, no station`);
+      return;
+    }
+    if (hiddenStation) {
+      setAnnouncement(`${hiddenStation.callSign}, ${hiddenStation.title}`);
+      return;
+    }
+
+    // Locking onto another channel tunes it like the dial would
+    if (nearestChannel !== currentChannel) {
+      handleChannelChange(nearestChannel);
+    } else {
+      setFineFrequency(null);
+    }
+  }, [currentChannel, fineFrequency, handleChannelChange]);
+
+  // Reveal the tuned channel once the static clears
+  useEffect(() => {
+    if (power.status === 'on') setDisplayChannel(currentChannel);
+  }, [power.status, currentChannel]);
+
+  // Announce what's on screen: "Channel 4, Projects", or the set going dark
+  const wasPoweredOnRef = useRef(false);
+  useEffect(() => {
+    if (power.status === 'on') {
+      wasPoweredOnRef.current = true;
+      setAnnouncement(`Channel ${displayChannel}, ${getChannel(displayChannel)?.label ?? ''}`);
+    } else if (power.status === 'off' && wasPoweredOnRef.current) {
+      wasPoweredOnRef.current = false;
+      setAnnouncement('TV off');
+    }
+  }, [power.status, displayChannel]);
+
+  // ═══════════ Remote Keypad ═══════════
+  const {
+    entry: keypadEntry,
+    invalidEntry: invalidKeypadEntry,
+    pressDigit,
+    commit: commitKeypad,
+    cancel: cancelKeypad,
+  } = useChannelKeypad(handleChannelChange);
+
+  // Drop half-typed entries when the screen goes dark
+  useEffect(() => {
+    if (!isPoweredOn) cancelKeypad();
+  }, [isPoweredOn, cancelKeypad]);
+
+  const handleKeypadDigit = useCallback(
+    (digit: number) => {
+      if (!canTune) return;
+      ensureAudio();
+      pressDigit(digit);
     },
-    [isPoweredOn, isBooting, currentChannel, ensureAudio]
+    [canTune, ensureAudio, pressDigit]
   );
 
+  // ═══════════ Browser History ═══════════
+  // Channel a bare `/` stands for: CH 1, or the one restored below
+  const landingChannelRef = useRef(1);
+  useEffect(() => {
+    const handlePopState = () => {
+      const ch = channelFromSearch(window.location.search) ?? landingChannelRef.current;
+      if (canTune) {
+        handleChannelChange(ch, { fromHistory: true });
+      } else {
+        // Screen is dark or still booting — just retune silently
+        setCurrentChannel(ch);
+        setDisplayChannel(ch);
+      }
+    };
+
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, [canTune, handleChannelChange]);
+
+  // ═══════════ Preferences & Deep Link Power-On ═══════════
+  // Restored after mount, so the server render and the first
+  // client render match; saving waits until this has run.
+  const [preferencesRestored, setPreferencesRestored] = useState(false);
+  const autoPoweredRef = useRef(false);
+  useEffect(() => {
+    if (autoPoweredRef.current) return;
+    autoPoweredRef.current = true;
+
+    const saved = readPreferences();
+    if (saved) {
+      setThemeId(saved.theme);
+      setVolume(saved.volume);
+      setMuted(saved.muted);
+      setSkipBoot(saved.skipBoot);
+      setMotionPreference(saved.motion);
+      setTVSettings(saved.settings);
+    }
+    setPreferencesRestored(true);
+
+    // A deep link wins over the channel the visitor left on. The
+    // remembered channel is only restored into state: a bare `/`
+    // stays as typed, and the URL changes once the visitor tunes.
+    const channel = initialChannel ?? saved?.lastChannel ?? null;
+    if (channel && !initialChannel) {
+      landingChannelRef.current = channel;
+      setCurrentChannel(channel);
+      setDisplayChannel(channel);
+    }
+
+    if (saved?.skipBoot && channel) {
+      dispatchPower('POWER_RESTORED');
+    } else if (initialChannel) {
+      handlePowerToggle();
+    }
+  }, [initialChannel, handlePowerToggle, dispatchPower]);
+
+  useEffect(() => {
+    if (!preferencesRestored) return;
+    writePreferences({
+      theme: themeId,
+      lastChannel: currentChannel,
+      volume,
+      muted,
+      skipBoot,
+      motion: motionPreference,
+      settings: tvSettings,
+    });
+  }, [
+    preferencesRestored,
+    themeId,
+    currentChannel,
+    volume,
+    muted,
+    skipBoot,
+    motionPreference,
+    tvSettings,
+  ]);
+
+  const handleSkipBootToggle = useCallback(() => {
+    setSkipBoot((prev) => !prev);
+  }, []);
+
   // ═══════════ Keyboard Navigation ═══════════
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
-      if (!isPoweredOn || isBooting) return;
+      if (!canTune) return;
+
+      // With the OSD open, arrows drive the menu instead of the tuner
+      if (menuOpen) {
+        const menuKeys: Record<string, () => void> = {
+          ArrowUp: () => handleMenuNavigate(-1),
+          ArrowDown: () => handleMenuNavigate(1),
+          ArrowRight: () => handleMenuAdjust(1),
+          ArrowLeft: () => handleMenuAdjust(-1),
+          Escape: () => setMenuOpen(false),
+        };
+        if (menuKeys[e.key]) {
+          e.preventDefault();
+          menuKeys[e.key]();
+          return;
+        }
+      }
+
+      // Volume, mute and digit keys with Ctrl, Cmd or Alt are the
+      // browser's and the OS's (page zoom, minimise, switching tabs)
+      // — leave them alone
+      const shortcut = e.ctrlKey || e.metaKey || e.altKey;
 
       switch (e.key) {
         case 'ArrowUp':
         case 'ArrowRight':
           e.preventDefault();
-          handleChannelChange(
-            currentChannel >= channels.length ? 1 : currentChannel + 1
-          );
+          handleChannelChange(nextChannel(currentChannel));
           break;
         case 'ArrowDown':
         case 'ArrowLeft':
           e.preventDefault();
-          handleChannelChange(
-            currentChannel <= 1 ? channels.length : currentChannel - 1
-          );
+          handleChannelChange(previousChannel(currentChannel));
+          break;
+        case 'Enter':
+          if (keypadEntry) {
+            e.preventDefault();
+            commitKeypad();
+          }
+          break;
+        case 'Escape':
+          cancelKeypad();
+          break;
+        case 'm':
+        case 'M':
+          if (shortcut) break;
+          handleMuteToggle();
+          break;
+        case '+':
+        case '=':
+          if (shortcut) break;
+          e.preventDefault();
+          handleVolumeUp();
           break;
-        // Number keys 1-8 for direct channel selection
-        case '1':
-        case '2':
-        case '3':
-        case '4':
-        case '5':
-        case '6':
-        case '7':
-        case '8':
+        case '-':
+          if (shortcut) break;
           e.preventDefault();
-          handleChannelChange(parseInt(e.key));
+          handleVolumeDown();
+          break;
+        default:
+          if (shortcut) break;
+          // Digits collect into a multi-digit channel entry
+          if (/^[0-9]$/.test(e.key)) {
+            e.preventDefault();
+            handleKeypadDigit(parseInt(e.key, 10));
+          }
           break;
       }
     };
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [isPoweredOn, isBooting, currentChannel, handleChannelChange]);
-
-  // ═══════════ Cleanup on unmount ═══════════
-  useEffect(() => {
-    return () => {
-      if (staticTimeoutRef.current) {
-        clearTimeout(staticTimeoutRef.current);
-      }
-    };
-  }, []);
+  }, [
+    canTune,
+    currentChannel,
+    handleChannelChange,
+    handleKeypadDigit,
+    keypadEntry,
+    commitKeypad,
+    cancelKeypad,
+    menuOpen,
+    handleMenuNavigate,
+    handleMenuAdjust,
+    handleMuteToggle,
+    handleVolumeUp,
+    handleVolumeDown,
+  ]);
 
-  // ═══════════ Accent colors based on mode ═══════════
-  const accentColor = greenMode ? '#33ff33' : '#ff9f43';
+  // ═══════════ Accent color from the phosphor theme ═══════════
+  const accentColor = theme.accent;
 
   return (
+    <MotionConfig reducedMotion={toMotionConfig(motionPreference)}>
+    <PhosphorThemeContext.Provider value={theme}>
     <div
       className={`relative flex h-screen w-screen items-center justify-center bg-[#050505] p-2 md:p-4 lg:p-8 ${
-        greenMode ? 'green-mode' : ''
+        reducedMotion ? 'reduced-motion' : motionPreference === 'full' ? 'full-motion' : ''
       }`}
-      role="application"
+      style={{ ...phosphorCssVariables(theme), ...tvSettingsCssVariables(tvSettings) }}
+      role="region"
       aria-label="CRT Television Portfolio - Suhan Shrestha"
     >
+      {/* Screen-reader announcements for tuning, power and phosphor changes */}
+      <div className="sr-only" role="status" aria-live="polite" aria-atomic="true">
+        {announcement}
+      </div>
+
       {/* ═══════════ LINUX TERMINAL BACKGROUND ═══════════ */}
       <div className="terminal-bg" aria-hidden="true">
         <pre>{`user@arch:~$ neofetch
@@ -293,19 +718,28 @@ user@arch:~$ _`}
         {/* ═══════════ SCREEN AREA ═══════════ */}
         <div className="relative flex-1 m-3 md:m-4 lg:m-5">
           <div className="crt-screen relative h-full w-full overflow-hidden bg-crt-dark">
-            {/* ═══ Screen content area ═══ */}
-            <div className="relative h-full w-full">
+            {/* ═══ Screen content area (brightness/contrast from the menu) ═══ */}
+            <div ref={pictureRef} className="crt-picture relative h-full w-full">
               {/* Power OFF state — dark screen */}
               {!isPoweredOn && !isShuttingDown && (
-                <div className="flex h-full w-full items-center justify-center">
+                <div className="flex h-full w-full flex-col items-center justify-center gap-4">
                   <motion.p
                     className="font-display text-xs tracking-widest opacity-20"
                     style={{ color: '#333' }}
-                    animate={{ opacity: [0.1, 0.2, 0.1] }}
+                    animate={reducedMotion ? undefined : { opacity: [0.1, 0.2, 0.1] }}
                     transition={{ duration: 3, repeat: Infinity }}
                   >
                     PRESS POWER TO START
                   </motion.p>
+                  {/* Quick start — returning visits skip the boot sequence */}
+                  <button
+                    className="text-[9px] uppercase tracking-widest"
+                    style={{ color: skipBoot ? accentColor : '#444' }}
+                    onClick={handleSkipBootToggle}
+                    aria-pressed={skipBoot}
+                  >
+                    Quick start next visit: {skipBoot ? 'On' : 'Off'}
+                  </button>
                 </div>
               )}
 
@@ -337,7 +771,7 @@ user@arch:~$ _`}
 
               {/* Boot-up sequence animation */}
               {isPoweredOn && (
-                <BootSequence isBooting={isBooting} greenMode={greenMode} />
+                <BootSequence isBooting={isBooting} />
               )}
 
               {/* Main channel content (visible after boot) */}
@@ -365,10 +799,32 @@ user@arch:~$ _`}
                       className="font-display text-2xl font-bold phosphor-glow"
                       style={{ color: accentColor }}
                     >
-                      {currentChannel}
+                      {keypadEntry
+                        ? keypadEntry.padEnd(KEYPAD_MAX_DIGITS, '_')
+                        : currentChannel}
                     </span>
                   </motion.div>
 
+                  {/* Invalid keypad entry OSD */}
+                  <AnimatePresence>
+                    {invalidKeypadEntry && (
+                      <motion.div
+                        className="absolute right-4 top-11 z-20"
+                        initial={{ opacity: 0 }}
+                        animate={{ opacity: 1 }}
+                        exit={{ opacity: 0 }}
+                        role="alert"
+                      >
+                        <span
+                          className="font-display text-[10px] tracking-wider phosphor-glow"
+                          style={{ color: '#ff6b6b' }}
+                        >
+                          NO CH {invalidKeypadEntry}
+                        </span>
+                      </motion.div>
+                    )}
+                  </AnimatePresence>
+
                   {/* Channel label OSD */}
                   <motion.div
                     className="absolute left-4 top-3 z-20"
@@ -380,26 +836,64 @@ user@arch:~$ _`}
                       className="font-display text-[10px] tracking-wider phosphor-glow"
                       style={{ color: `${accentColor}99` }}
                     >
-                      {channels[currentChannel - 1]?.label.toUpperCase()}
+                      {tuning
+                        ? formatFrequency(tuning.frequency)
+                        : getChannel(currentChannel)?.label.toUpperCase()}
                     </span>
                   </motion.div>
 
-                  {/* The actual channel content */}
-                  <div className="h-full pt-8 pb-2">
-                    <ChannelContent
-                      channel={displayChannel}
-                      greenMode={greenMode}
-                    />
-                  </div>
+                  {/* The actual channel content, ghosting on a weak signal */}
+                  <motion.div className="h-full pt-8 pb-2" style={{ filter: ghosting }}>
+                    <SignalLossContext.Provider value={reportSignalLoss}>
+                      {tuning?.hiddenStation ? (
+                        <HiddenStationCard
+                          station={tuning.hiddenStation}
+                          accent={theme.accent}
+                          dim={theme.dim}
+                        />
+                      ) : (
+                        <ChannelContent channel={tuning?.nearestChannel ?? displayChannel} />
+                      )}
+                    </SignalLossContext.Provider>
+                  </motion.div>
                 </motion.div>
               )}
 
-              {/* Static noise overlay during channel switch */}
-              <StaticOverlay isVisible={showStatic} />
+              {/* Static snow, following the signal strength */}
+              <StaticOverlay signalStrength={signalStrength} />
             </div>
 
+            {/* ═══ Volume OSD ═══ */}
+            <AnimatePresence>
+              {isPoweredOn && volumeOsdVisible && !menuOpen && (
+                <VolumeOSD volume={volume} muted={muted} />
+              )}
+            </AnimatePresence>
+
+            {/* ═══ Settings OSD — drawn over the picture, not through its filters ═══ */}
+            <AnimatePresence>
+              {menuOpen && (
+                <TVMenu
+                  settings={tvSettings}
+                  selectedIndex={menuIndex}
+                  onSelect={setMenuIndex}
+                  themeLabel={theme.label}
+                  accent={theme.accent}
+                  dim={theme.dim}
+                />
+              )}
+            </AnimatePresence>
+
             {/* ═══ CRT Visual Effects Layers ═══ */}
-            {isPoweredOn && (
+            {isPoweredOn && shaderActive && (
+              <CRTShaderLayer
+                params={shaderParams}
+                source={pictureRef}
+                signalStrength={signalStrength}
+                onUnavailable={handleShaderUnavailable}
+              />
+            )}
+            {isPoweredOn && !shaderActive && (
               <>
                 {/* Scanlines */}
                 <div className="crt-scanlines" aria-hidden="true" />
@@ -410,13 +904,15 @@ user@arch:~$ _`}
                 {/* Edge vignette */}
                 <div className="crt-vignette" aria-hidden="true" />
 
-                {/* Subtle screen flicker */}
-                <motion.div
-                  className="pointer-events-none absolute inset-0 z-[8]"
-                  animate={{ opacity: [0.97, 1, 0.98, 1, 0.97] }}
-                  transition={{ duration: 0.3, repeat: Infinity }}
-                  aria-hidden="true"
-                />
+                {/* Subtle screen flicker — off in reduced motion or from the menu */}
+                {tvSettings.flicker && !reducedMotion && (
+                  <motion.div
+                    className="pointer-events-none absolute inset-0 z-[8]"
+                    animate={{ opacity: [0.97, 1, 0.98, 1, 0.97] }}
+                    transition={{ duration: 0.3, repeat: Infinity }}
+                    aria-hidden="true"
+                  />
+                )}
               </>
             )}
           </div>
@@ -430,15 +926,27 @@ user@arch:~$ _`}
           <TVControls
             currentChannel={currentChannel}
             isPoweredOn={isPoweredOn}
-            greenMode={greenMode}
             isPlaying={isPlaying}
             volume={volume}
+            muted={muted}
             onChannelChange={handleChannelChange}
+            fineFrequency={fineFrequency}
+            canFineTune={canFineTune}
+            onFineTune={handleFineTune}
+            onFineTuneEnd={handleFineTuneEnd}
             onPowerToggle={handlePowerToggle}
-            onPowerLongPress={handlePowerLongPress}
+            onThemeCycle={handleThemeCycle}
+            motionPreference={motionPreference}
+            onMotionToggle={handleMotionToggle}
+            menuOpen={menuOpen}
+            onMenuToggle={handleMenuToggle}
+            onMenuNavigate={handleMenuNavigate}
             onMusicToggle={handleMusicToggle}
+            onMuteToggle={handleMuteToggle}
             onVolumeUp={handleVolumeUp}
             onVolumeDown={handleVolumeDown}
+            onKeypadDigit={handleKeypadDigit}
+            onKeypadEnter={commitKeypad}
           />
         </div>
 
@@ -447,15 +955,27 @@ user@arch:~$ _`}
           <TVControls
             currentChannel={currentChannel}
             isPoweredOn={isPoweredOn}
-            greenMode={greenMode}
             isPlaying={isPlaying}
             volume={volume}
+            muted={muted}
             onChannelChange={handleChannelChange}
+            fineFrequency={fineFrequency}
+            canFineTune={canFineTune}
+            onFineTune={handleFineTune}
+            onFineTuneEnd={handleFineTuneEnd}
             onPowerToggle={handlePowerToggle}
-            onPowerLongPress={handlePowerLongPress}
+            onThemeCycle={handleThemeCycle}
+            motionPreference={motionPreference}
+            onMotionToggle={handleMotionToggle}
+            menuOpen={menuOpen}
+            onMenuToggle={handleMenuToggle}
+            onMenuNavigate={handleMenuNavigate}
             onMusicToggle={handleMusicToggle}
+            onMuteToggle={handleMuteToggle}
             onVolumeUp={handleVolumeUp}
             onVolumeDown={handleVolumeDown}
+            onKeypadDigit={handleKeypadDigit}
+            onKeypadEnter={commitKeypad}
           />
         </div>
 
@@ -493,10 +1013,13 @@ user@arch:~$ _`}
       {/* ═══════════ KEYBOARD SHORTCUTS HINT ═══════════ */}
       <div className="fixed bottom-2 left-1/2 -translate-x-1/2 hidden lg:flex items-center gap-4 text-[10px]" style={{ color: '#333' }}>
         <span>↑↓ Channel</span>
-        <span>1-8 Direct</span>
-        <span>Hold Power 3s = Green Mode</span>
-        <span>Press Vol = Music</span>
+        <span>0-9 + Enter Direct</span>
+        <span>Hold Power 3s = Phosphor</span>
+        <span>+/− Volume</span>
+        <span>M Mute</span>
       </div>
     </div>
+    </PhosphorThemeContext.Provider>
+    </MotionConfig>
   );
 }
@@ -0,0 +1,249 @@
+'use client';
+
+/**
+ * ═══════════════════════════════════════════════════
+ * CRT Shader Layer Component
+ * The WebGL tube (lib/crtShader) over the screen. The
+ * picture canvas redraws the channel itself, curved and
+ * bloomed, from snapshots of `source` (lib/screenSnapshot)
+ * taken whenever it changes — mutations, scrolling,
+ * hover and focus, resizes, the signal fading — at most
+ * every SNAPSHOT_INTERVAL_MS. The live DOM underneath
+ * still takes pointer and keyboard input.
+ *
+ * Until the first snapshot lands, or for good if the
+ * browser won't draw one or can't keep up, the overlay
+ * canvases stand in: one multiplied onto the live
+ * picture, one screened. Animates only while flicker or
+ * grain is on; otherwise a frame is drawn when something
+ * changes. Reports back through onUnavailable if WebGL
+ * fails to set up or the context is lost, so CRTMonitor
+ * can drop back to the CSS layers.
+ * ═══════════════════════════════════════════════════
+ */
+
+import { useEffect, useRef, useState, type RefObject } from 'react';
+import type { MotionValue } from 'framer-motion';
+import {
+  createCRTRenderer,
+  type CRTRenderer,
+  type CRTShaderParams,
+  type CRTShaderPass,
+} from '@/lib/crtShader';
+import { snapshotElement } from '@/lib/screenSnapshot';
+
+interface CRTShaderLayerProps {
+  params: CRTShaderParams;
+  /** The element whose picture the tube draws */
+  source: RefObject<HTMLElement>;
+  /** Snow redraws without touching the DOM — re-snapshot as it changes */
+  signalStrength: MotionValue<number>;
+  onUnavailable: () => void;
+}
+
+/** At most ten snapshots a second */
+const SNAPSHOT_INTERVAL_MS = 100;
+/** A snapshot slower than this (ms) is falling behind… */
+const SNAPSHOT_BUDGET_MS = 150;
+/** …and this many in a row hand the screen back to the overlays */
+const SLOW_SNAPSHOT_LIMIT = 3;
+/** Snapshot pixels per CSS pixel, at most — the tube blurs finer detail anyway */
+const SNAPSHOT_MAX_SCALE = 1.5;
+
+/** Events that change the picture without a DOM mutation */
+const REPAINT_EVENTS = [
+  'scroll',
+  'pointerover',
+  'pointerout',
+  'focusin',
+  'focusout',
+  'transitionend',
+  'animationend',
+];
+
+type Renderers = Partial<Record<CRTShaderPass, CRTRenderer>>;
+
+function drawFrame(renderers: Renderers, pictureLive: boolean, params: CRTShaderParams): void {
+  // Wrapped so the shader's float time keeps its precision
+  const time = (performance.now() / 1000) % 1000;
+  const passes: CRTShaderPass[] = pictureLive ? ['picture'] : ['multiply', 'screen'];
+  passes.forEach((pass) => renderers[pass]?.render(params, time));
+}
+
+export default function CRTShaderLayer({
+  params,
+  source,
+  signalStrength,
+  onUnavailable,
+}: CRTShaderLayerProps) {
+  const pictureRef = useRef<HTMLCanvasElement>(null);
+  const multiplyRef = useRef<HTMLCanvasElement>(null);
+  const screenRef = useRef<HTMLCanvasElement>(null);
+  const renderersRef = useRef<Renderers>({});
+  const paramsRef = useRef(params);
+  paramsRef.current = params;
+
+  // Whether the picture canvas is showing; mirrored for the observers
+  const [pictureLive, setPictureLive] = useState(false);
+  const pictureLiveRef = useRef(pictureLive);
+  pictureLiveRef.current = pictureLive;
+
+  const animated = params.flicker > 0 || params.noise > 0;
+
+  // Set up the passes once; tear down on unmount
+  useEffect(() => {
+    const canvases: [CRTShaderPass, HTMLCanvasElement | null][] = [
+      ['picture', pictureRef.current],
+      ['multiply', multiplyRef.current],
+      ['screen', screenRef.current],
+    ];
+    const renderers: Renderers = {};
+    canvases.forEach(([pass, canvas]) => {
+      const renderer = canvas && createCRTRenderer(canvas, pass);
+      if (renderer) renderers[pass] = renderer;
+    });
+    // The overlays are the floor: without them, back to CSS
+    if (!renderers.multiply || !renderers.screen) {
+      Object.values(renderers).forEach((renderer) => renderer.dispose());
+      onUnavailable();
+      return;
+    }
+    renderersRef.current = renderers;
+
+    const observer = new ResizeObserver(() => {
+      Object.values(renderersRef.current).forEach((renderer) => renderer.resize());
+      drawFrame(renderersRef.current, pictureLiveRef.current, paramsRef.current);
+    });
+    if (multiplyRef.current) observer.observe(multiplyRef.current);
+
+    const handleContextLost = (e: Event) => {
+      e.preventDefault();
+      onUnavailable();
+    };
+    canvases.forEach(([, canvas]) => canvas?.addEventListener('webglcontextlost', handleContextLost));
+
+    return () => {
+      observer.disconnect();
+      canvases.forEach(([, canvas]) =>
+        canvas?.removeEventListener('webglcontextlost', handleContextLost)
+      );
+      Object.values(renderersRef.current).forEach((renderer) => renderer.dispose());
+      renderersRef.current = {};
+    };
+  }, [onUnavailable]);
+
+  // Keep the picture current: snapshot `source` whenever it changes
+  useEffect(() => {
+    const element = source.current;
+    const picture = renderersRef.current.picture;
+    if (!element || !picture) return;
+
+    let stopped = false;
+    let busy = false;
+    let dirty = true;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    let lastStart = -Infinity;
+    let slowInARow = 0;
+
+    const mutations = new MutationObserver(() => schedule());
+    const resizes = new ResizeObserver(() => schedule());
+    let unsubscribe = () => {};
+
+    const stop = () => {
+      stopped = true;
+      mutations.disconnect();
+      resizes.disconnect();
+      REPAINT_EVENTS.forEach((type) => element.removeEventListener(type, schedule, true));
+      unsubscribe();
+      if (timer) clearTimeout(timer);
+    };
+
+    const capture = async () => {
+      timer = null;
+      if (stopped || busy || !dirty) return;
+      dirty = false;
+      busy = true;
+      lastStart = performance.now();
+      try {
+        const snapshot = await snapshotElement(
+          element,
+          Math.min(window.devicePixelRatio || 1, SNAPSHOT_MAX_SCALE)
+        );
+        if (stopped) return;
+        if (!picture.setPicture(snapshot)) throw new Error('The browser refused the snapshot');
+        slowInARow = performance.now() - lastStart > SNAPSHOT_BUDGET_MS ? slowInARow + 1 : 0;
+        if (slowInARow >= SLOW_SNAPSHOT_LIMIT) throw new Error('Snapshots can’t keep up');
+
+        pictureLiveRef.current = true;
+        setPictureLive(true);
+        drawFrame(renderersRef.current, true, paramsRef.current);
+      } catch {
+        // Back to the overlays on the live picture for this power-on
+        stop();
+        pictureLiveRef.current = false;
+        setPictureLive(false);
+        return;
+      } finally {
+        busy = false;
+      }
+      if (dirty) schedule();
+    };
+
+    const schedule = () => {
+      dirty = true;
+      if (stopped || busy || timer) return;
+      timer = setTimeout(capture, Math.max(0, lastStart + SNAPSHOT_INTERVAL_MS - performance.now()));
+    };
+
+    mutations.observe(element, {
+      subtree: true,
+      childList: true,
+      attributes: true,
+      characterData: true,
+    });
+    resizes.observe(element);
+    REPAINT_EVENTS.forEach((type) =>
+      element.addEventListener(type, schedule, { capture: true, passive: true })
+    );
+    unsubscribe = signalStrength.on('change', schedule);
+    schedule();
+
+    return stop;
+  }, [source, signalStrength]);
+
+  // Redraw: every frame while animated, otherwise once per change
+  useEffect(() => {
+    if (!animated) {
+      drawFrame(renderersRef.current, pictureLive, paramsRef.current);
+      return;
+    }
+    let frame = requestAnimationFrame(function loop() {
+      drawFrame(renderersRef.current, pictureLive, paramsRef.current);
+      frame = requestAnimationFrame(loop);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [animated, params, pictureLive]);
+
+  return (
+    <>
+      <canvas
+        ref={pictureRef}
+        className="pointer-events-none absolute inset-0 z-[10] h-full w-full rounded-[20px]"
+        style={{ visibility: pictureLive ? 'visible' : 'hidden' }}
+        aria-hidden="true"
+      />
+      <canvas
+        ref={multiplyRef}
+        className="pointer-events-none absolute inset-0 z-[10] h-full w-full rounded-[20px]"
+        style={{ mixBlendMode: 'multiply', visibility: pictureLive ? 'hidden' : 'visible' }}
+        aria-hidden="true"
+      />
+      <canvas
+        ref={screenRef}
+        className="pointer-events-none absolute inset-0 z-[11] h-full w-full rounded-[20px]"
+        style={{ mixBlendMode: 'screen', visibility: pictureLive ? 'hidden' : 'visible' }}
+        aria-hidden="true"
+      />
+    </>
+  );
+}
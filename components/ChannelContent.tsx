@@ -3,33 +3,79 @@
 /**
  * ═══════════════════════════════════════════════════
  * Channel Content Component
- * Renders the content for each of the 8 TV channels.
- * Each channel is a self-contained view with its own
- * layout and animations, unified by the CRT aesthetic.
+ * Renders the content for each TV channel. Which view
+ * shows up is looked up from the channel registry in
+ * lib/channelData — each view is self-contained with its
+ * own layout and animations, unified by the CRT aesthetic.
  * ═══════════════════════════════════════════════════
  */
 
-import { useState, useEffect, useCallback, useRef } from 'react';
-import { motion, AnimatePresence } from 'framer-motion';
+import { useState, useEffect, useCallback, useRef, type ComponentType } from 'react';
+import { motion, AnimatePresence, useReducedMotionConfig } from 'framer-motion';
 import {
+  getChannel,
   personalInfo,
   experiences,
   technicalSkills,
   softSkills,
   quotes,
+  blogInfo,
+  contactPitch,
+  contactLinks,
+  type Channel,
+  type ChannelView,
 } from '@/lib/channelData';
 import {
-  fetchPinnedRepos,
-  fetchContributionData,
+  contributionResource,
+  dayActivityResource,
+  pinnedReposResource,
   languageColors,
-  type PinnedRepo,
-  type ContributionWeek,
-  type ContributionData,
+  type ContributionDay,
+  type DataFreshness,
+  type DayActivityType,
 } from '@/lib/githubApi';
+import { useCachedResource } from '@/lib/useCachedResource';
+import {
+  ROLLING_PERIOD,
+  formatContributionPeriod,
+  getPeriodRange,
+  listContributionPeriods,
+  type ContributionPeriod,
+} from '@/lib/contributionPeriod';
+import {
+  EMPTY_CONTRIBUTION_STATS,
+  WEEKDAY_LABELS,
+  asciiBar,
+} from '@/lib/contributionStats';
+import { usePhosphorTheme } from '@/lib/usePhosphorTheme';
+import NoSignalCard from './NoSignalCard';
 
 interface ChannelContentProps {
   channel: number;
-  greenMode: boolean;
+}
+
+/** Props every channel view receives */
+interface ChannelViewProps {
+  channel: Channel;
+  accent: string;
+  dim: string;
+}
+
+/** Registry of view components, keyed by Channel.component */
+const channelViews: Record<ChannelView, ComponentType<ChannelViewProps>> = {
+  about: AboutChannel,
+  experience: ExperienceChannel,
+  skills: SkillsChannel,
+  projects: ProjectsChannel,
+  'proof-of-work': ProofOfWorkChannel,
+  quotes: QuotesChannel,
+  blog: BlogChannel,
+  contact: ContactChannel,
+};
+
+/** Zero-padded channel number for the "Channel 01" headers */
+function formatChannelNumber(channel: Channel): string {
+  return String(channel.number).padStart(2, '0');
 }
 
 /** Shared animation variants for content entry */
@@ -108,13 +154,42 @@ function ScrollHint({ color, position = 'bottom' }: { color: string; position?:
   );
 }
 
-export default function ChannelContent({
-  channel,
-  greenMode,
-}: ChannelContentProps) {
-  const accentColor = greenMode ? '#33ff33' : '#ff9f43';
-  const scrollableChannels = [2, 3, 4, 7, 8];
-  const dimColor = greenMode ? '#22aa22' : '#cc7722';
+/**
+ * Broadcast-style tag for GitHub-backed channels: LIVE when the
+ * data is fresh, RERUN when the server fell back to its cache.
+ */
+function FreshnessBadge({
+  freshness,
+  accent,
+  dim,
+}: {
+  freshness: DataFreshness;
+  accent: string;
+  dim: string;
+}) {
+  const isLive = freshness === 'live';
+  return (
+    <span
+      className="inline-flex items-center gap-1 rounded px-1.5 py-px text-[9px] font-display tracking-wider"
+      style={{
+        color: isLive ? accent : dim,
+        border: `1px solid ${isLive ? `${accent}55` : `${dim}55`}`,
+      }}
+      title={isLive ? 'Fresh from GitHub' : 'GitHub is unreachable — showing the last good copy'}
+    >
+      <span
+        className="inline-block h-1.5 w-1.5 rounded-full"
+        style={{ background: isLive ? '#ff4444' : dim }}
+      />
+      {isLive ? 'LIVE' : 'RERUN'}
+    </span>
+  );
+}
+
+export default function ChannelContent({ channel }: ChannelContentProps) {
+  const { accent: accentColor, dim: dimColor } = usePhosphorTheme();
+  const current = getChannel(channel);
+  const View = current ? channelViews[current.component] : null;
 
   return (
     <AnimatePresence mode="wait">
@@ -126,40 +201,15 @@ export default function ChannelContent({
         animate="visible"
         exit="exit"
       >
-        {channel === 1 && (
-          <AboutChannel accent={accentColor} dim={dimColor} />
-        )}
-        {channel === 2 && (
-          <ExperienceChannel accent={accentColor} dim={dimColor} />
-        )}
-        {channel === 3 && (
-          <SkillsChannel
-            accent={accentColor}
-            dim={dimColor}
-            greenMode={greenMode}
-          />
-        )}
-        {channel === 4 && (
-          <ProjectsChannel accent={accentColor} dim={dimColor} />
-        )}
-        {channel === 5 && (
-          <ProofOfWorkChannel
+        {current && View && (
+          <View
+            channel={current}
             accent={accentColor}
             dim={dimColor}
-            greenMode={greenMode}
           />
         )}
-        {channel === 6 && (
-          <QuotesChannel accent={accentColor} dim={dimColor} />
-        )}
-        {channel === 7 && (
-          <BlogChannel accent={accentColor} dim={dimColor} />
-        )}
-        {channel === 8 && (
-          <ContactChannel accent={accentColor} dim={dimColor} />
-        )}
-        {scrollableChannels.includes(channel) && (
-          <ScrollHint color={accentColor} position={channel === 8 ? 'top' : 'bottom'} />
+        {current?.scrollable && (
+          <ScrollHint color={accentColor} position={current.scrollHint ?? 'bottom'} />
         )}
       </motion.div>
     </AnimatePresence>
@@ -170,17 +220,20 @@ export default function ChannelContent({
    CHANNEL 1 — About Me
    ═══════════════════════════════════════════════════ */
 function AboutChannel({
+  channel,
   accent,
   dim,
-}: {
-  accent: string;
-  dim: string;
-}) {
+}: ChannelViewProps) {
+  const reducedMotion = useReducedMotionConfig();
   const [displayedText, setDisplayedText] = useState('');
   const fullText = personalInfo.bio;
 
-  // Typewriter effect for bio text
+  // Typewriter effect for bio text (the whole bio at once in reduced motion)
   useEffect(() => {
+    if (reducedMotion) {
+      setDisplayedText(fullText);
+      return;
+    }
     setDisplayedText('');
     let i = 0;
     const timer = setInterval(() => {
@@ -192,14 +245,14 @@ function AboutChannel({
       }
     }, 20);
     return () => clearInterval(timer);
-  }, [fullText]);
+  }, [fullText, reducedMotion]);
 
   return (
     <motion.div className="flex flex-col gap-6" variants={contentVariants}>
       {/* Header */}
       <motion.div variants={itemVariants}>
         <p className="text-xs uppercase tracking-[0.3em] mb-1" style={{ color: dim }}>
-          Channel 01
+          Channel {formatChannelNumber(channel)}
         </p>
         <h1
           className="font-display text-2xl md:text-3xl lg:text-4xl font-bold crt-text"
@@ -247,7 +300,7 @@ function AboutChannel({
               Status
             </p>
             <p className="text-sm crt-text" style={{ color: accent }}>
-              Open to opportunities
+              {personalInfo.status}
             </p>
           </div>
         </div>
@@ -274,17 +327,15 @@ function AboutChannel({
    CHANNEL 2 — Experience
    ═══════════════════════════════════════════════════ */
 function ExperienceChannel({
+  channel,
   accent,
   dim,
-}: {
-  accent: string;
-  dim: string;
-}) {
+}: ChannelViewProps) {
   return (
     <motion.div className="flex flex-col gap-6" variants={contentVariants}>
       <motion.div variants={itemVariants}>
         <p className="text-xs uppercase tracking-[0.3em] mb-1" style={{ color: dim }}>
-          Channel 02
+          Channel {formatChannelNumber(channel)}
         </p>
         <h2
           className="font-display text-xl md:text-2xl font-bold crt-text"
@@ -386,19 +437,15 @@ function ExperienceChannel({
    CHANNEL 3 — Skills
    ═══════════════════════════════════════════════════ */
 function SkillsChannel({
+  channel,
   accent,
   dim,
-  greenMode,
-}: {
-  accent: string;
-  dim: string;
-  greenMode: boolean;
-}) {
+}: ChannelViewProps) {
   return (
     <motion.div className="flex flex-col gap-6" variants={contentVariants}>
       <motion.div variants={itemVariants}>
         <p className="text-xs uppercase tracking-[0.3em] mb-1" style={{ color: dim }}>
-          Channel 03
+          Channel {formatChannelNumber(channel)}
         </p>
         <h2
           className="font-display text-xl md:text-2xl font-bold crt-text"
@@ -497,33 +544,19 @@ function SkillsChannel({
    CHANNEL 4 — Projects (GitHub)
    ═══════════════════════════════════════════════════ */
 function ProjectsChannel({
+  channel,
   accent,
   dim,
-}: {
-  accent: string;
-  dim: string;
-}) {
-  const [repos, setRepos] = useState<PinnedRepo[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-
-  useEffect(() => {
-    fetchPinnedRepos()
-      .then((data) => {
-        setRepos(data);
-        setLoading(false);
-      })
-      .catch(() => {
-        setError('Failed to fetch repositories');
-        setLoading(false);
-      });
-  }, []);
+}: ChannelViewProps) {
+  const { data, error, loading, retry } = useCachedResource(pinnedReposResource);
+  const repos = data?.repos ?? [];
+  const freshness = data?.freshness ?? null;
 
   return (
     <motion.div className="flex flex-col gap-6" variants={contentVariants}>
       <motion.div variants={itemVariants}>
         <p className="text-xs uppercase tracking-[0.3em] mb-1" style={{ color: dim }}>
-          Channel 04
+          Channel {formatChannelNumber(channel)}
         </p>
         <h2
           className="font-display text-xl md:text-2xl font-bold crt-text"
@@ -531,8 +564,11 @@ function ProjectsChannel({
         >
           Projects
         </h2>
-        <p className="text-xs mt-1" style={{ color: dim }}>
+        <p className="text-xs mt-1 flex items-center gap-2" style={{ color: dim }}>
           Pinned on github.com/{personalInfo.github}
+          {freshness && !error && (
+            <FreshnessBadge freshness={freshness} accent={accent} dim={dim} />
+          )}
         </p>
       </motion.div>
 
@@ -560,17 +596,12 @@ function ProjectsChannel({
       )}
 
       {error && (
-        <motion.div
-          className="text-center py-12"
-          variants={itemVariants}
-        >
-          <p className="text-sm" style={{ color: '#ff6b6b' }}>
-            ⚠ {error}
-          </p>
-          <p className="text-xs mt-2" style={{ color: dim }}>
-            Check connection and try again
-          </p>
-        </motion.div>
+        <NoSignalCard
+          error={error}
+          onRetry={retry}
+          accent={accent}
+          dim={dim}
+        />
       )}
 
       {!loading && !error && (
@@ -657,54 +688,140 @@ function ProjectsChannel({
   );
 }
 
-/* ═══════════════════════════════════════════════════
-   CHANNEL 5 — Proof of Work (Commit Activity)
-   ═══════════════════════════════════════════════════ */
-function ProofOfWorkChannel({
+/**
+ * Steps CH 5 through contribution periods. Left/Right arrows
+ * step while it has focus, without changing the channel.
+ */
+function PeriodStepper({
+  period,
+  onChange,
   accent,
   dim,
-  greenMode,
 }: {
+  period: ContributionPeriod;
+  onChange: (period: ContributionPeriod) => void;
   accent: string;
   dim: string;
-  greenMode: boolean;
 }) {
-  const [weeks, setWeeks] = useState<ContributionWeek[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [totalContributions, setTotalContributions] = useState(0);
+  const periods = listContributionPeriods();
+  const index = periods.indexOf(period);
+  const older = periods[index + 1];
+  const newer = periods[index - 1];
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key !== 'ArrowLeft' && e.key !== 'ArrowRight') return;
+    // Keep the arrow from reaching the TV's channel handler
+    e.preventDefault();
+    e.stopPropagation();
+    const target = e.key === 'ArrowLeft' ? older : newer;
+    if (target !== undefined) onChange(target);
+  };
+
+  const buttonStyle = (enabled: boolean) => ({
+    color: enabled ? accent : `${dim}55`,
+    border: `1px solid ${enabled ? `${accent}33` : `${dim}22`}`,
+  });
 
+  return (
+    <div
+      className="flex items-center gap-2"
+      role="group"
+      aria-label="Contribution period"
+      onKeyDown={handleKeyDown}
+    >
+      <button
+        className="rounded px-2 py-0.5 text-[10px] font-display"
+        style={buttonStyle(older !== undefined)}
+        onClick={() => older !== undefined && onChange(older)}
+        disabled={older === undefined}
+        aria-label="Previous period"
+      >
+        ◀
+      </button>
+      <span
+        className="min-w-[110px] text-center text-[10px] uppercase tracking-wider font-display"
+        style={{ color: accent }}
+        aria-live="polite"
+      >
+        {formatContributionPeriod(period)}
+      </span>
+      <button
+        className="rounded px-2 py-0.5 text-[10px] font-display"
+        style={buttonStyle(newer !== undefined)}
+        onClick={() => newer !== undefined && onChange(newer)}
+        disabled={newer === undefined}
+        aria-label="Next period"
+      >
+        ▶
+      </button>
+      <span className="hidden sm:inline text-[9px]" style={{ color: dim }}>
+        ←/→ to step
+      </span>
+    </div>
+  );
+}
+
+/* ═══════════════════════════════════════════════════
+   CHANNEL 5 — Proof of Work (Commit Activity)
+   ═══════════════════════════════════════════════════ */
+function ProofOfWorkChannel({
+  channel,
+  accent,
+  dim,
+}: ChannelViewProps) {
+  const { heatmap } = usePhosphorTheme();
+  const [period, setPeriod] = useState<ContributionPeriod>(ROLLING_PERIOD);
+  const { data, error, loading, retry } = useCachedResource(contributionResource(period));
+  const weeks = data?.weeks ?? [];
+  const totalContributions = data?.totalContributions ?? 0;
+  const stats = data?.stats ?? EMPTY_CONTRIBUTION_STATS;
+  const freshness = data?.freshness ?? null;
+  const range = data ?? getPeriodRange(period);
+  const periodLabel = formatContributionPeriod(period);
+
+  // Calendar interaction: roving focus cell, OSD readout, opened day
+  const [activeCell, setActiveCell] = useState({ week: 0, day: 0 });
+  const [inspectedDay, setInspectedDay] = useState<ContributionDay | null>(null);
+  const [selectedDate, setSelectedDate] = useState<string | null>(null);
+  const cellRefs = useRef<(HTMLButtonElement | null)[][]>([]);
+
+  // A new period starts with a fresh cursor and nothing opened
   useEffect(() => {
-    fetchContributionData().then((data: ContributionData) => {
-      setWeeks(data.weeks);
-      setTotalContributions(data.totalContributions);
-      setLoading(false);
-    });
-  }, []);
+    setActiveCell({ week: 0, day: 0 });
+    setSelectedDate(null);
+  }, [period]);
 
-  /** Get color for contribution level (0-4) */
+  /** Get color for contribution level (0-4) from the theme's heatmap scale */
   const getLevelColor = useCallback(
-    (level: number): string => {
-      if (greenMode) {
-        const colors = ['#161b22', '#0e4429', '#006d32', '#26a641', '#39d353'];
-        return colors[level] || colors[0];
-      }
-      const colors = [
-        '#161b22',
-        `${accent}33`,
-        `${accent}66`,
-        `${accent}99`,
-        accent,
-      ];
-      return colors[level] || colors[0];
-    },
-    [accent, greenMode]
+    (level: number): string => heatmap[level] ?? heatmap[0],
+    [heatmap]
   );
 
+  /** Arrow keys move the focused cell: ←/→ by week, ↑/↓ by day */
+  const handleGridKeyDown = (e: React.KeyboardEvent) => {
+    const moves: Record<string, [number, number]> = {
+      ArrowLeft: [-1, 0],
+      ArrowRight: [1, 0],
+      ArrowUp: [0, -1],
+      ArrowDown: [0, 1],
+    };
+    const move = moves[e.key];
+    if (!move || weeks.length === 0) return;
+    // Keep the arrow from reaching the TV's channel handler
+    e.preventDefault();
+    e.stopPropagation();
+
+    const week = Math.max(0, Math.min(weeks.length - 1, activeCell.week + move[0]));
+    const day = Math.max(0, Math.min(weeks[week].days.length - 1, activeCell.day + move[1]));
+    setActiveCell({ week, day });
+    cellRefs.current[week]?.[day]?.focus();
+  };
+
   return (
     <motion.div className="flex flex-col gap-6" variants={contentVariants}>
       <motion.div variants={itemVariants}>
         <p className="text-xs uppercase tracking-[0.3em] mb-1" style={{ color: dim }}>
-          Channel 05
+          Channel {formatChannelNumber(channel)}
         </p>
         <h2
           className="font-display text-xl md:text-2xl font-bold crt-text"
@@ -712,11 +829,23 @@ function ProofOfWorkChannel({
         >
           Proof of Work
         </h2>
-        <p className="text-xs mt-1" style={{ color: dim }}>
-          GitHub Activity &mdash; @{personalInfo.github} &mdash; {new Date().getFullYear()}
+        <p className="text-xs mt-1 flex items-center gap-2" style={{ color: dim }}>
+          GitHub Activity &mdash; @{personalInfo.github} &mdash; {periodLabel}
+          {freshness && !loading && !error && (
+            <FreshnessBadge freshness={freshness} accent={accent} dim={dim} />
+          )}
         </p>
       </motion.div>
 
+      <motion.div variants={itemVariants}>
+        <PeriodStepper
+          period={period}
+          onChange={setPeriod}
+          accent={accent}
+          dim={dim}
+        />
+      </motion.div>
+
       <motion.div
         className="h-px w-full"
         style={{ background: `linear-gradient(90deg, ${accent}, transparent)` }}
@@ -732,21 +861,42 @@ function ProofOfWorkChannel({
             transition={{ duration: 1, repeat: Infinity, ease: 'linear' }}
           />
         </motion.div>
+      ) : error ? (
+        <NoSignalCard
+          error={error}
+          onRetry={retry}
+          accent={accent}
+          dim={dim}
+        />
       ) : (
         <>
           {/* Stats */}
-          <motion.div className="flex gap-6" variants={itemVariants}>
-            <div>
-              <p
-                className="font-display text-2xl font-bold crt-text"
-                style={{ color: accent }}
-              >
-                {totalContributions}
-              </p>
-              <p className="text-[10px] uppercase tracking-wider" style={{ color: dim }}>
-                Contributions ({new Date().getFullYear()})
-              </p>
-            </div>
+          <motion.div className="flex flex-wrap gap-6" variants={itemVariants}>
+            {[
+              { value: totalContributions, label: `Contributions (${periodLabel})` },
+              // Past years have no "current" streak
+              ...(stats.currentStreak === null
+                ? []
+                : [{ value: `${stats.currentStreak}d`, label: 'Current streak' }]),
+              { value: `${stats.longestStreak}d`, label: 'Longest streak' },
+              {
+                value: stats.bestDay ? stats.bestDay.count : 0,
+                label: stats.bestDay ? `Best day (${stats.bestDay.date})` : 'Best day',
+              },
+              { value: stats.averagePerActiveDay, label: 'Avg / active day' },
+            ].map((tile) => (
+              <div key={tile.label}>
+                <p
+                  className="font-display text-2xl font-bold crt-text"
+                  style={{ color: accent }}
+                >
+                  {tile.value}
+                </p>
+                <p className="text-[10px] uppercase tracking-wider" style={{ color: dim }}>
+                  {tile.label}
+                </p>
+              </div>
+            ))}
           </motion.div>
 
           {/* Contribution Calendar Grid */}
@@ -763,13 +913,12 @@ function ProofOfWorkChannel({
                     if (weeks.length === 0) return null;
                     const monthLabels: { label: string; position: number }[] = [];
                     const allMonths = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
-                    const currentYear = new Date().getFullYear();
                     let lastMonth = -1;
                     weeks.forEach((week, wi) => {
                       if (week.days.length > 0) {
                         const d = new Date(week.days[0].date);
                         const m = d.getMonth();
-                        if (m !== lastMonth && d.getFullYear() === currentYear) {
+                        if (m !== lastMonth && week.days[0].date >= range.from) {
                           monthLabels.push({ label: allMonths[m], position: wi });
                           lastMonth = m;
                         }
@@ -795,13 +944,12 @@ function ProofOfWorkChannel({
                     if (weeks.length === 0) return null;
                     const monthLabels: { label: string; position: number }[] = [];
                     const allMonths = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
-                    const currentYear = new Date().getFullYear();
                     let lastMonth = -1;
                     weeks.forEach((week, wi) => {
                       if (week.days.length > 0) {
                         const d = new Date(week.days[0].date);
                         const m = d.getMonth();
-                        if (m !== lastMonth && d.getFullYear() === currentYear) {
+                        if (m !== lastMonth && week.days[0].date >= range.from) {
                           monthLabels.push({ label: allMonths[m], position: wi });
                           lastMonth = m;
                         }
@@ -841,33 +989,71 @@ function ProofOfWorkChannel({
                   ))}
                 </div>
 
-                {/* Grid of contribution cells */}
-                {weeks.map((week, wi) => (
-                  <div key={wi} className="flex flex-col gap-0.5">
-                    {week.days.map((day, di) => (
-                      <motion.div
-                        key={`${wi}-${di}`}
-                        className="commit-cell rounded-[2px]"
-                        style={{
-                          width: 10,
-                          height: 10,
-                          background: getLevelColor(day.level),
-                          border:
-                            day.level > 0
-                              ? 'none'
-                              : '1px solid rgba(255,255,255,0.03)',
-                        }}
-                        initial={{ opacity: 0, scale: 0 }}
-                        animate={{ opacity: 1, scale: 1 }}
-                        transition={{
-                          delay: (wi * 7 + di) * 0.002,
-                          duration: 0.2,
-                        }}
-                        title={`${day.date}: ${day.count} contributions`}
-                      />
-                    ))}
-                  </div>
-                ))}
+                {/* Grid of contribution cells — one tab stop, arrows move within */}
+                <div
+                  className="flex gap-0.5 flex-row flex-wrap"
+                  role="grid"
+                  aria-label="Contribution calendar"
+                  onKeyDown={handleGridKeyDown}
+                >
+                  {weeks.map((week, wi) => (
+                    <div key={wi} className="flex flex-col gap-0.5" role="row">
+                      {week.days.map((day, di) => {
+                        const isActive = wi === activeCell.week && di === activeCell.day;
+                        return (
+                          <motion.button
+                            key={`${wi}-${di}`}
+                            ref={(el) => {
+                              (cellRefs.current[wi] ??= [])[di] = el;
+                            }}
+                            className="commit-cell rounded-[2px] p-0"
+                            style={{
+                              width: 10,
+                              height: 10,
+                              background: getLevelColor(day.level),
+                              border:
+                                day.date === selectedDate
+                                  ? `1px solid ${accent}`
+                                  : day.level > 0
+                                    ? 'none'
+                                    : '1px solid rgba(255,255,255,0.03)',
+                            }}
+                            initial={{ opacity: 0, scale: 0 }}
+                            animate={{ opacity: 1, scale: 1 }}
+                            transition={{
+                              delay: (wi * 7 + di) * 0.002,
+                              duration: 0.2,
+                            }}
+                            role="gridcell"
+                            tabIndex={isActive ? 0 : -1}
+                            aria-label={`${day.date}: ${day.count} contributions`}
+                            aria-selected={day.date === selectedDate}
+                            onMouseEnter={() => setInspectedDay(day)}
+                            onMouseLeave={() => setInspectedDay(null)}
+                            onFocus={() => {
+                              setActiveCell({ week: wi, day: di });
+                              setInspectedDay(day);
+                            }}
+                            onBlur={() => setInspectedDay(null)}
+                            onClick={() => setSelectedDate(day.date)}
+                          />
+                        );
+                      })}
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              {/* OSD readout for the hovered / focused day */}
+              <div
+                className="mt-2 h-4 text-[10px] font-display tracking-wider"
+                style={{ color: accent }}
+                aria-live="polite"
+              >
+                {inspectedDay &&
+                  `▸ ${inspectedDay.date} — ${inspectedDay.count} contribution${
+                    inspectedDay.count === 1 ? '' : 's'
+                  }`}
               </div>
 
               {/* Legend */}
@@ -888,6 +1074,51 @@ function ProofOfWorkChannel({
               </div>
             </div>
           </motion.div>
+
+          {/* Selected day's public activity */}
+          <AnimatePresence>
+            {selectedDate && (
+              <DayActivityPanel
+                key={selectedDate}
+                date={selectedDate}
+                accent={accent}
+                dim={dim}
+                onClose={() => setSelectedDate(null)}
+              />
+            )}
+          </AnimatePresence>
+
+          {/* Weekday histogram & monthly totals as phosphor bar charts */}
+          <motion.div className="grid grid-cols-1 md:grid-cols-2 gap-4" variants={itemVariants}>
+            <pre
+              className="text-[9px] md:text-[10px] leading-snug crt-text"
+              style={{ color: accent }}
+              aria-label="Contributions by weekday"
+            >
+              {`┌─ By Weekday ───────────────┐
+${stats.weekdayTotals
+  .map(
+    (total, i) =>
+      `│ ${WEEKDAY_LABELS[i]} ${asciiBar(total, Math.max(...stats.weekdayTotals))} ${String(total).padStart(5)} │`
+  )
+  .join('\n')}
+└────────────────────────────┘`}
+            </pre>
+            <pre
+              className="text-[9px] md:text-[10px] leading-snug crt-text"
+              style={{ color: accent }}
+              aria-label="Contributions by month"
+            >
+              {`┌─ By Month ─────────────────────┐
+${stats.monthlyTotals
+  .map(
+    ({ month, total }) =>
+      `│ ${month} ${asciiBar(total, Math.max(...stats.monthlyTotals.map((m) => m.total)))} ${String(total).padStart(5)} │`
+  )
+  .join('\n')}
+└────────────────────────────────┘`}
+            </pre>
+          </motion.div>
         </>
       )}
 
@@ -897,39 +1128,141 @@ function ProofOfWorkChannel({
         style={{ color: accent }}
         variants={itemVariants}
       >
-        {`$ git log --oneline --since="${new Date().getFullYear()}-01-01" | wc -l
-> ${totalContributions} contributions in ${new Date().getFullYear()}
+        {`$ git log --oneline --since="${range.from}" --until="${range.to}" | wc -l
+> ${totalContributions} contributions in ${period === ROLLING_PERIOD ? 'the last 12 months' : period}
 > Consistency is key. Ship daily.`}
       </motion.pre>
     </motion.div>
   );
 }
 
-/* ═══════════════════════════════════════════════════
-   CHANNEL 6 — Quotes Carousel
-   ═══════════════════════════════════════════════════ */
-function QuotesChannel({
+/** Icons for each kind of day activity */
+const activityIcons: Record<DayActivityType, string> = {
+  commit: '⎇',
+  'pull-request': '⇄',
+  issue: '◉',
+};
+
+/** Panel listing one calendar day's commits, PRs and issues */
+function DayActivityPanel({
+  date,
   accent,
   dim,
+  onClose,
 }: {
+  date: string;
   accent: string;
   dim: string;
+  onClose: () => void;
 }) {
+  const { data: activity, error, retry } = useCachedResource(dayActivityResource(date));
+
+  return (
+    <motion.div
+      className="rounded-lg p-4"
+      style={{ background: `${accent}05`, border: `1px solid ${accent}22` }}
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0 }}
+      role="region"
+      aria-label={`Activity on ${date}`}
+      onKeyDown={(e) => {
+        if (e.key === 'Escape') onClose();
+      }}
+    >
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="font-display text-xs tracking-wider" style={{ color: accent }}>
+          {date}
+        </h3>
+        <button
+          className="text-[10px] uppercase tracking-wider"
+          style={{ color: dim }}
+          onClick={onClose}
+          aria-label="Close day activity"
+        >
+          ✕ Close
+        </button>
+      </div>
+
+      {!activity && !error && (
+        <p className="text-xs crt-text" style={{ color: accent }}>
+          Fetching activity...
+        </p>
+      )}
+
+      {error && (
+        <NoSignalCard
+          error={error}
+          onRetry={retry}
+          accent={accent}
+          dim={dim}
+          compact
+        />
+      )}
+
+      {activity && activity.items.length === 0 && (
+        <p className="text-xs" style={{ color: dim }}>
+          No public activity found for this day
+        </p>
+      )}
+
+      {activity && activity.items.length > 0 && (
+        <ul className="space-y-2">
+          {activity.items.map((item) => (
+            <li key={item.url} className="flex gap-2 text-[11px] leading-relaxed">
+              <span style={{ color: accent }} className="flex-shrink-0" aria-label={item.type}>
+                {activityIcons[item.type]}
+              </span>
+              <a
+                href={item.url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="min-w-0 hover:underline"
+              >
+                <span className="crt-text" style={{ color: accent }}>
+                  {item.title}
+                </span>
+                <span className="ml-2 text-[10px]" style={{ color: dim }}>
+                  {item.repo}
+                </span>
+              </a>
+            </li>
+          ))}
+        </ul>
+      )}
+    </motion.div>
+  );
+}
+
+/* ═══════════════════════════════════════════════════
+   CHANNEL 6 — Quotes Carousel
+   ═══════════════════════════════════════════════════ */
+function QuotesChannel({
+  channel,
+  accent,
+  dim,
+}: ChannelViewProps) {
+  const reducedMotion = useReducedMotionConfig();
   const [currentQuote, setCurrentQuote] = useState(0);
   const [displayedText, setDisplayedText] = useState('');
 
-  // Auto-advance quotes every 6 seconds
+  // Auto-advance quotes every 6 seconds — not in reduced motion
   useEffect(() => {
+    if (reducedMotion) return;
     const timer = setInterval(() => {
       setCurrentQuote((prev) => (prev + 1) % quotes.length);
     }, 6000);
     return () => clearInterval(timer);
-  }, []);
+  }, [reducedMotion]);
 
   // Typewriter effect for each quote
   useEffect(() => {
-    setDisplayedText('');
     const text = quotes[currentQuote].text;
+    if (reducedMotion) {
+      setDisplayedText(text);
+      return;
+    }
+    setDisplayedText('');
     let i = 0;
     const timer = setInterval(() => {
       if (i < text.length) {
@@ -940,13 +1273,13 @@ function QuotesChannel({
       }
     }, 30);
     return () => clearInterval(timer);
-  }, [currentQuote]);
+  }, [currentQuote, reducedMotion]);
 
   return (
     <motion.div className="flex flex-col gap-6" variants={contentVariants}>
       <motion.div variants={itemVariants}>
         <p className="text-xs uppercase tracking-[0.3em] mb-1" style={{ color: dim }}>
-          Channel 06
+          Channel {formatChannelNumber(channel)}
         </p>
         <h2
           className="font-display text-xl md:text-2xl font-bold crt-text"
@@ -1013,7 +1346,9 @@ function QuotesChannel({
         style={{ color: accent }}
         variants={itemVariants}
       >
-        Auto-cycling every 6 seconds • Click dots to navigate
+        {reducedMotion
+          ? 'Click dots to navigate'
+          : 'Auto-cycling every 6 seconds • Click dots to navigate'}
       </motion.p>
     </motion.div>
   );
@@ -1023,12 +1358,12 @@ function QuotesChannel({
    CHANNEL 7 — Blog/Writing (Coming Soon)
    ═══════════════════════════════════════════════════ */
 function BlogChannel({
+  channel,
   accent,
   dim,
-}: {
-  accent: string;
-  dim: string;
-}) {
+}: ChannelViewProps) {
+  const reducedMotion = useReducedMotionConfig();
+
   return (
     <motion.div
       className="flex flex-col items-center justify-center gap-6 h-full text-center"
@@ -1036,20 +1371,20 @@ function BlogChannel({
     >
       <motion.div variants={itemVariants}>
         <p className="text-xs uppercase tracking-[0.3em] mb-4" style={{ color: dim }}>
-          Channel 07
+          Channel {formatChannelNumber(channel)}
         </p>
 
-        {/* Large "Coming Soon" display */}
+        {/* Large status display ("Coming Soon") */}
         <motion.div
           className="relative"
-          animate={{ opacity: [0.6, 1, 0.6] }}
+          animate={reducedMotion ? undefined : { opacity: [0.6, 1, 0.6] }}
           transition={{ duration: 3, repeat: Infinity }}
         >
           <h2
-            className="font-display text-3xl md:text-4xl font-bold crt-text"
+            className="font-display text-3xl md:text-4xl font-bold crt-text uppercase"
             style={{ color: accent }}
           >
-            COMING SOON
+            {blogInfo.status}
           </h2>
         </motion.div>
 
@@ -1072,9 +1407,7 @@ function BlogChannel({
               Blog / Writing
             </h3>
             <p className="text-xs leading-relaxed" style={{ color: dim }}>
-              I&apos;m preparing thoughtful articles on web development,
-              frontend architecture, and my journey from frontend specialist
-              to full-stack developer. Stay tuned.
+              {blogInfo.teaser}
             </p>
           </div>
         </motion.div>
@@ -1094,7 +1427,7 @@ function BlogChannel({
         {/* Blinking broadcast indicator */}
         <motion.div
           className="mt-4 flex items-center gap-2 justify-center"
-          animate={{ opacity: [0.3, 1, 0.3] }}
+          animate={reducedMotion ? undefined : { opacity: [0.3, 1, 0.3] }}
           transition={{ duration: 2, repeat: Infinity }}
         >
           <div
@@ -1114,44 +1447,15 @@ function BlogChannel({
    CHANNEL 8 — Contact
    ═══════════════════════════════════════════════════ */
 function ContactChannel({
+  channel,
   accent,
   dim,
-}: {
-  accent: string;
-  dim: string;
-}) {
-  const links = [
-    {
-      label: 'Email',
-      value: personalInfo.email,
-      href: `mailto:${personalInfo.email}`,
-      icon: '📧',
-    },
-    {
-      label: 'LinkedIn',
-      value: 'Suhan Shrestha',
-      href: personalInfo.linkedin,
-      icon: '💼',
-    },
-    {
-      label: 'GitHub',
-      value: `@${personalInfo.github}`,
-      href: personalInfo.githubUrl,
-      icon: '💻',
-    },
-    {
-      label: 'Location',
-      value: personalInfo.location,
-      href: `https://maps.google.com/?q=${encodeURIComponent(personalInfo.location)}`,
-      icon: '📍',
-    },
-  ];
-
+}: ChannelViewProps) {
   return (
     <motion.div className="flex flex-col gap-6" variants={contentVariants}>
       <motion.div variants={itemVariants}>
         <p className="text-xs uppercase tracking-[0.3em] mb-1" style={{ color: dim }}>
-          Channel 08
+          Channel {formatChannelNumber(channel)}
         </p>
         <h2
           className="font-display text-xl md:text-2xl font-bold crt-text"
@@ -1172,7 +1476,7 @@ function ContactChannel({
 
       {/* Contact links */}
       <motion.div className="space-y-3" variants={contentVariants}>
-        {links.map((link, index) => (
+        {contactLinks.map((link, index) => (
           <motion.a
             key={link.label}
             href={link.href}
@@ -1223,8 +1527,7 @@ function ContactChannel({
         variants={itemVariants}
       >
         <p className="text-sm crt-text leading-relaxed" style={{ color: accent }}>
-          Open to freelance projects, collaborations, and full-time
-          opportunities. Let&apos;s build something remarkable together.
+          {contactPitch}
         </p>
         <motion.a
           href={`mailto:${personalInfo.email}`}
@@ -0,0 +1,178 @@
+/**
+ * ═══════════════════════════════════════════════════
+ * Channel Transcript Component
+ * A plain, semantic copy of every channel, rendered on
+ * the server from lib/channelData and the initial GitHub
+ * data. Visually hidden on the home page — the TV is
+ * what visitors see — but it gives crawlers, link
+ * unfurlers and screen readers the whole portfolio
+ * without powering on. /plain shows it as the page.
+ * ═══════════════════════════════════════════════════
+ */
+
+import type { ReactNode } from 'react';
+import {
+  blogInfo,
+  channels,
+  contactLinks,
+  contactPitch,
+  experiences,
+  personalInfo,
+  quotes,
+  softSkills,
+  technicalSkills,
+  type ChannelView,
+} from '@/lib/channelData';
+import type { InitialChannelData } from '@/lib/githubApi';
+
+interface ChannelTranscriptProps {
+  initialData: InitialChannelData;
+  /** Show the transcript instead of hiding it visually (the /plain page) */
+  visible?: boolean;
+}
+
+/** Transcript body for each view, keyed like ChannelContent's registry */
+const transcriptSections: Record<ChannelView, (data: InitialChannelData) => ReactNode> = {
+  about: () => (
+    <>
+      <p>
+        {personalInfo.name} — {personalInfo.title}
+      </p>
+      <p>{personalInfo.bio}</p>
+      <p>Status: {personalInfo.status}.</p>
+    </>
+  ),
+
+  experience: () => (
+    <ol>
+      {experiences.map((job) => (
+        <li key={`${job.company}-${job.title}`}>
+          <h3>
+            {job.title} — {job.company}
+          </h3>
+          <p>
+            {job.duration}
+            {job.location ? `, ${job.location}` : ''}
+          </p>
+          <ul>
+            {job.responsibilities.map((item) => (
+              <li key={item}>{item}</li>
+            ))}
+          </ul>
+        </li>
+      ))}
+    </ol>
+  ),
+
+  skills: () => {
+    const categories = Array.from(new Set(technicalSkills.map((skill) => skill.category)));
+    return (
+      <>
+        <dl>
+          {categories.map((category) => (
+            <div key={category}>
+              <dt>{category}</dt>
+              <dd>
+                {technicalSkills
+                  .filter((skill) => skill.category === category)
+                  .map((skill) => skill.name)
+                  .join(', ')}
+              </dd>
+            </div>
+          ))}
+        </dl>
+        <p>Also: {softSkills.map((skill) => skill.name).join(', ')}.</p>
+      </>
+    );
+  },
+
+  projects: ({ pinnedRepos }) =>
+    pinnedRepos && pinnedRepos.data.repos.length > 0 ? (
+      <ul>
+        {pinnedRepos.data.repos.map((repo) => (
+          <li key={repo.fullName}>
+            <a href={repo.url}>{repo.fullName}</a>
+            {repo.description && ` — ${repo.description}`}
+            {repo.language && ` (${repo.language})`}
+          </li>
+        ))}
+      </ul>
+    ) : (
+      <p>
+        Pinned repositories are on <a href={personalInfo.githubUrl}>GitHub</a>.
+      </p>
+    ),
+
+  'proof-of-work': ({ contributions }) =>
+    contributions ? (
+      <p>
+        {contributions.data.totalContributions} GitHub contributions between{' '}
+        {contributions.data.from} and {contributions.data.to}. Longest streak:{' '}
+        {contributions.data.stats.longestStreak} days
+        {contributions.data.stats.currentStreak !== null &&
+          `; current streak: ${contributions.data.stats.currentStreak} days`}
+        {contributions.data.stats.bestDay &&
+          `; best day: ${contributions.data.stats.bestDay.count} contributions on ${contributions.data.stats.bestDay.date}`}
+        .
+      </p>
+    ) : (
+      <p>
+        Contribution history is on <a href={personalInfo.githubUrl}>GitHub</a>.
+      </p>
+    ),
+
+  quotes: () => (
+    <ul>
+      {quotes.map((quote) => (
+        <li key={quote.text}>
+          <blockquote>{quote.text}</blockquote> — {quote.context}
+        </li>
+      ))}
+    </ul>
+  ),
+
+  blog: () => (
+    <p>
+      {blogInfo.status}: {blogInfo.teaser}
+    </p>
+  ),
+
+  contact: () => (
+    <>
+      <p>{contactPitch}</p>
+      <ul>
+        {contactLinks.map((link) => (
+          <li key={link.label}>
+            {link.label}: <a href={link.href}>{link.value}</a>
+          </li>
+        ))}
+      </ul>
+    </>
+  ),
+};
+
+/** Anchor id of a channel's section, for in-page links */
+export function transcriptSectionId(channelName: string): string {
+  return `transcript-${channelName}`;
+}
+
+export default function ChannelTranscript({
+  initialData,
+  visible = false,
+}: ChannelTranscriptProps) {
+  return (
+    <article className={visible ? undefined : 'sr-only'} aria-label="Portfolio transcript">
+      <h1>
+        {personalInfo.name} — {personalInfo.title}
+      </h1>
+      {channels.map((channel) => (
+        <section key={channel.name} aria-labelledby={transcriptSectionId(channel.name)}>
+          <h2 id={transcriptSectionId(channel.name)}>
+            Channel {channel.number}: {channel.label}
+          </h2>
+          {transcriptSections[channel.component](initialData)}
+        </section>
+      ))}
+    </article>
+  );
+}
@@ -0,0 +1,55 @@
+'use client';
+
+/**
+ * ═══════════════════════════════════════════════════
+ * Hidden Station Card Component
+ * What the screen shows when fine tuning lands on one
+ * of the off-grid stations in lib/tuning: call sign,
+ * frequency and a short transmission, one line at a
+ * time (all at once in reduced motion).
+ * ═══════════════════════════════════════════════════
+ */
+
+import { motion, useReducedMotionConfig } from 'framer-motion';
+import { formatFrequency, type HiddenStation } from '@/lib/tuning';
+
+interface HiddenStationCardProps {
+  station: HiddenStation;
+  accent: string;
+  dim: string;
+}
+
+export default function HiddenStationCard({ station, accent, dim }: HiddenStationCardProps) {
+  const reducedMotion = useReducedMotionConfig();
+
+  return (
+    <div className="flex h-full flex-col items-center justify-center gap-4 px-6 text-center">
+      <div className="flex flex-col items-center gap-1">
+        <p
+          className="font-display text-2xl font-bold tracking-[0.3em] crt-text"
+          style={{ color: accent }}
+        >
+          {station.callSign}
+        </p>
+        <p className="text-[10px] uppercase tracking-[0.3em]" style={{ color: dim }}>
+          {station.title} · {formatFrequency(station.frequency)}
+        </p>
+      </div>
+
+      <div className="flex flex-col gap-2">
+        {station.lines.map((line, i) => (
+          <motion.p
+            key={line}
+            className="text-sm crt-text"
+            style={{ color: accent }}
+            initial={reducedMotion ? false : { opacity: 0 }}
+            animate={{ opacity: 1 }}
+            transition={{ delay: 0.4 + i * 0.9 }}
+          >
+            {line}
+          </motion.p>
+        ))}
+      </div>
+    </div>
+  );
+}
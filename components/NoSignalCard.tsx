@@ -0,0 +1,103 @@
+'use client';
+
+/**
+ * ═══════════════════════════════════════════════════
+ * No Signal Card Component
+ * The test card a data-driven channel shows when its
+ * feed fails: colour bars, NO SIGNAL / PLEASE STAND BY
+ * and a retry button that re-tunes the feed.
+ * ═══════════════════════════════════════════════════
+ */
+
+import { motion, useReducedMotionConfig } from 'framer-motion';
+import type { GitHubFetchError } from '@/lib/githubApi';
+import { useSignalLoss } from '@/lib/signalStrength';
+
+interface NoSignalCardProps {
+  error: GitHubFetchError;
+  onRetry: () => void;
+  accent: string;
+  dim: string;
+  /** Smaller card for panels inside a channel */
+  compact?: boolean;
+}
+
+/** Classic SMPTE-style bar colours, muted to sit under the phosphor tint */
+const TEST_CARD_BARS = ['#c0c0c0', '#c0c000', '#00c0c0', '#00c000', '#c000c0', '#c00000', '#0000c0'];
+
+/** Human-readable reason shown under PLEASE STAND BY */
+function describeError(error: GitHubFetchError): string {
+  switch (error.kind) {
+    case 'network':
+      return 'Transmitter unreachable — check your connection';
+    case 'http':
+      return error.status && error.status >= 500
+        ? `GitHub feed down (${error.status})`
+        : `Feed rejected the request (${error.status})`;
+    case 'invalid-response':
+      return 'Garbled transmission from the feed';
+  }
+}
+
+export default function NoSignalCard({
+  error,
+  onRetry,
+  accent,
+  dim,
+  compact = false,
+}: NoSignalCardProps) {
+  const reducedMotion = useReducedMotionConfig();
+  // The whole screen goes snowy while a feed is down
+  useSignalLoss();
+
+  return (
+    <motion.div
+      className={`relative overflow-hidden rounded-lg ${compact ? 'py-4' : 'py-10'}`}
+      style={{ border: `1px solid ${accent}33`, background: `${accent}05` }}
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      role="alert"
+    >
+      {/* Colour bars, flickering faintly behind the caption (steady in reduced motion) */}
+      <motion.div
+        className="absolute inset-0 flex"
+        style={{ opacity: 0.16 }}
+        animate={reducedMotion ? undefined : { opacity: [0.14, 0.2, 0.12, 0.18] }}
+        transition={{ duration: 0.6, repeat: Infinity }}
+        aria-hidden="true"
+      >
+        {TEST_CARD_BARS.map((color) => (
+          <div key={color} className="flex-1" style={{ background: color }} />
+        ))}
+      </motion.div>
+      <div className="static-noise absolute inset-0 opacity-30" aria-hidden="true" />
+
+      <div className="relative flex flex-col items-center gap-2 text-center px-4">
+        <p
+          className={`font-display font-bold tracking-[0.3em] crt-text ${compact ? 'text-sm' : 'text-2xl'}`}
+          style={{ color: accent }}
+        >
+          NO SIGNAL
+        </p>
+        <motion.p
+          className="text-[10px] uppercase tracking-[0.3em]"
+          style={{ color: dim }}
+          animate={reducedMotion ? undefined : { opacity: [1, 0.4, 1] }}
+          transition={{ duration: 1.6, repeat: Infinity }}
+        >
+          Please stand by
+        </motion.p>
+        <p className="text-xs" style={{ color: '#ff6b6b' }}>
+          ⚠ {describeError(error)}
+        </p>
+        <button
+          className="mt-2 rounded px-3 py-1 text-[10px] font-display uppercase tracking-wider"
+          style={{ color: accent, border: `1px solid ${accent}66`, background: `${accent}11` }}
+          onClick={onRetry}
+        >
+          ⟲ Retry
+        </button>
+      </div>
+    </motion.div>
+  );
+}
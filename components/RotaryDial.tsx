@@ -5,117 +5,150 @@
  * Rotary Dial Component
  * A draggable rotary knob that changes channels.
  * Click and drag to rotate — each 45° step changes
- * the channel with a satisfying click sound.
+ * the channel with a satisfying click sound (and a
+ * haptic tick where the device can vibrate). A mouse
+ * wheel or trackpad turns it too, and a fast flick
+ * keeps it coasting through channels until friction
+ * stops it — see lib/useRotaryKnob.
+ * Exposed as an ARIA slider: arrows step (wrapping
+ * like the knob), Home/End jump to the first/last
+ * channel and PageUp/PageDown skip a few at a time.
+ *
+ * Fine tuning: Shift-drag (or Shift + arrows) turns the
+ * knob freely, mapping its angle onto a continuous
+ * frequency (lib/tuning) with quiet ticks along the way.
+ * Letting go (or releasing Shift) hands the frequency
+ * back to CRTMonitor to lock onto whatever is there.
+ * Only while `canFineTune` — otherwise Shift changes
+ * nothing and the knob keeps to its detents.
  * ═══════════════════════════════════════════════════
  */
 
-import { useRef, useCallback, useEffect, useState } from 'react';
+import { useCallback, useMemo } from 'react';
 import { motion } from 'framer-motion';
 import { playDialClick } from '@/lib/soundEffects';
+import { getChannel } from '@/lib/channelData';
+import { bandPosition, formatFrequency } from '@/lib/tuning';
+import { useRotaryKnob } from '@/lib/useRotaryKnob';
+import { usePhosphorTheme } from '@/lib/usePhosphorTheme';
 
 interface RotaryDialProps {
   currentChannel: number;
   totalChannels: number;
   onChannelChange: (channel: number) => void;
-  greenMode: boolean;
+  /** Frequency the set is fine-tuned to, or null when on a channel */
+  fineFrequency: number | null;
+  /** Whether the set can be fine-tuned now (it's on and settled) */
+  canFineTune: boolean;
+  onFineTune: (frequency: number) => void;
+  onFineTuneEnd: () => void;
 }
 
+/** Fine-tuning ticks per channel step, and the Shift + arrow step (channels) */
+const FINE_TICKS_PER_CHANNEL = 10;
+const FINE_KEY_STEP = 0.05;
+
 export default function RotaryDial({
   currentChannel,
   totalChannels,
   onChannelChange,
-  greenMode,
+  fineFrequency,
+  canFineTune,
+  onFineTune,
+  onFineTuneEnd,
 }: RotaryDialProps) {
-  const dialRef = useRef<HTMLDivElement>(null);
-  const isDragging = useRef(false);
-  const lastAngle = useRef(0);
-  const accumulatedRotation = useRef(0);
-
-  // Calculate rotation per channel (360° / 8 channels = 45° each)
+  // Calculate rotation per channel (360° / totalChannels, 45° with 8)
   const degreesPerChannel = 360 / totalChannels;
-  const [rotation, setRotation] = useState(
-    (currentChannel - 1) * degreesPerChannel
-  );
 
-  // Sync rotation when channel changes externally
-  useEffect(() => {
-    setRotation((currentChannel - 1) * degreesPerChannel);
-  }, [currentChannel, degreesPerChannel]);
-
-  /**
-   * Calculate angle from center of dial to pointer position
-   */
-  const getAngle = useCallback((clientX: number, clientY: number): number => {
-    if (!dialRef.current) return 0;
-    const rect = dialRef.current.getBoundingClientRect();
-    const centerX = rect.left + rect.width / 2;
-    const centerY = rect.top + rect.height / 2;
-    return Math.atan2(clientY - centerY, clientX - centerX) * (180 / Math.PI);
-  }, []);
+  /** The dial's angle as a frequency: channel n sits at n */
+  const frequencyAt = useCallback(
+    (angle: number) => 1 + angle / degreesPerChannel,
+    [degreesPerChannel]
+  );
 
-  /**
-   * Handle pointer down — start tracking rotation
-   */
-  const handlePointerDown = useCallback(
-    (e: React.PointerEvent) => {
-      isDragging.current = true;
-      lastAngle.current = getAngle(e.clientX, e.clientY);
-      accumulatedRotation.current = 0;
-      (e.target as HTMLElement).setPointerCapture(e.pointerId);
+  // Detent positions count from 0; a spin past the last wraps round
+  const handleStep = useCallback(
+    (position: number) => {
+      onChannelChange((((position % totalChannels) + totalChannels) % totalChannels) + 1);
     },
-    [getAngle]
+    [onChannelChange, totalChannels]
   );
 
-  /**
-   * Handle pointer move — rotate dial and detect channel changes
-   */
-  const handlePointerMove = useCallback(
-    (e: React.PointerEvent) => {
-      if (!isDragging.current) return;
-
-      const currentAngle = getAngle(e.clientX, e.clientY);
-      let delta = currentAngle - lastAngle.current;
-
-      // Handle angle wrapping at ±180°
-      if (delta > 180) delta -= 360;
-      if (delta < -180) delta += 360;
+  const fine = useMemo(
+    () => ({
+      ticksPerStep: FINE_TICKS_PER_CHANNEL,
+      onTurn: (angle: number) => onFineTune(frequencyAt(angle)),
+      onTick: (angle: number) => playDialClick(bandPosition(frequencyAt(angle), totalChannels)),
+      onEnd: onFineTuneEnd,
+    }),
+    [frequencyAt, onFineTune, onFineTuneEnd, totalChannels]
+  );
 
-      accumulatedRotation.current += delta;
-      lastAngle.current = currentAngle;
+  const { knobRef, rotation, turn, endFineTurn, handlers } = useRotaryKnob({
+    position: currentChannel - 1,
+    degreesPerStep: degreesPerChannel,
+    onStep: handleStep,
+    fine: canFineTune ? fine : undefined,
+    holding: fineFrequency !== null,
+  });
 
-      setRotation((prev) => prev + delta);
+  /**
+   * Keyboard operation for the slider role. Handled keys stop
+   * here so the TV's own arrow-key handler doesn't tune twice.
+   */
+  const handleKeyDown = useCallback(
+    (e: React.KeyboardEvent) => {
+      const fineSteps: Record<string, 1 | -1> = {
+        ArrowRight: 1,
+        ArrowUp: 1,
+        ArrowLeft: -1,
+        ArrowDown: -1,
+      };
+      if (e.shiftKey && canFineTune && fineSteps[e.key] !== undefined) {
+        e.preventDefault();
+        e.stopPropagation();
+        // Free, and ticking on every press
+        turn(fineSteps[e.key] * FINE_KEY_STEP * degreesPerChannel, true, true);
+        return;
+      }
 
-      // Check if accumulated rotation crosses a channel boundary (45°)
-      if (Math.abs(accumulatedRotation.current) >= degreesPerChannel) {
-        const direction = accumulatedRotation.current > 0 ? 1 : -1;
-        const newChannel =
-          ((currentChannel - 1 + direction + totalChannels) % totalChannels) + 1;
-        onChannelChange(newChannel);
+      const wrap = (channel: number) =>
+        ((channel - 1 + totalChannels) % totalChannels) + 1;
+      const clamp = (channel: number) => Math.max(1, Math.min(totalChannels, channel));
+      const pageStep = Math.max(2, Math.round(totalChannels / 4));
+
+      const targets: Record<string, number> = {
+        ArrowRight: wrap(currentChannel + 1),
+        ArrowUp: wrap(currentChannel + 1),
+        ArrowLeft: wrap(currentChannel - 1),
+        ArrowDown: wrap(currentChannel - 1),
+        PageUp: clamp(currentChannel + pageStep),
+        PageDown: clamp(currentChannel - pageStep),
+        Home: 1,
+        End: totalChannels,
+      };
+      const target = targets[e.key];
+      if (target === undefined) return;
+
+      e.preventDefault();
+      e.stopPropagation();
+      if (target !== currentChannel) {
+        onChannelChange(target);
         playDialClick();
-        accumulatedRotation.current = 0;
       }
     },
-    [
-      currentChannel,
-      degreesPerChannel,
-      getAngle,
-      onChannelChange,
-      totalChannels,
-    ]
+    [canFineTune, currentChannel, degreesPerChannel, onChannelChange, totalChannels, turn]
   );
 
-  /**
-   * Handle pointer up — stop tracking
-   */
-  const handlePointerUp = useCallback(() => {
-    isDragging.current = false;
-    // Snap to nearest channel position
-    const snappedRotation =
-      Math.round(rotation / degreesPerChannel) * degreesPerChannel;
-    setRotation(snappedRotation);
-  }, [rotation, degreesPerChannel]);
+  /** Releasing Shift ends keyboard fine tuning, like letting go of the knob */
+  const handleKeyUp = useCallback(
+    (e: React.KeyboardEvent) => {
+      if (e.key === 'Shift') endFineTurn();
+    },
+    [endFineTurn]
+  );
 
-  const indicatorColor = greenMode ? '#33ff33' : '#ff9f43';
+  const indicatorColor = usePhosphorTheme().accent;
 
   return (
     <div className="flex flex-col items-center gap-1">
@@ -132,6 +165,7 @@ export default function RotaryDial({
           return (
             <span
               key={i}
+              aria-hidden="true"
               className="absolute text-[16px] font-display transition-all duration-200"
               style={{
                 left: `${x}px`,
@@ -150,18 +184,25 @@ export default function RotaryDial({
 
         {/* The actual rotary knob */}
         <motion.div
-          ref={dialRef}
+          ref={knobRef}
           className="rotary-dial absolute left-1/2 top-1/2"
           style={{ rotate: rotation, x: '-50%', y: '-50%' }}
-          onPointerDown={handlePointerDown}
-          onPointerMove={handlePointerMove}
-          onPointerUp={handlePointerUp}
+          {...handlers}
+          onKeyDown={handleKeyDown}
+          onKeyUp={handleKeyUp}
           whileTap={{ scale: 0.95 }}
           role="slider"
           aria-label="Channel selector dial"
           aria-valuenow={currentChannel}
           aria-valuemin={1}
           aria-valuemax={totalChannels}
+          aria-valuetext={
+            fineFrequency === null
+              ? `Channel ${currentChannel}, ${getChannel(currentChannel)?.label ?? ''}`
+              : `Fine tuning, ${formatFrequency(fineFrequency, totalChannels)}`
+          }
+          aria-keyshortcuts="Shift+ArrowLeft Shift+ArrowRight"
+          title="Shift-drag to fine tune"
           tabIndex={0}
         >
           {/* Indicator notch */}
@@ -187,7 +228,7 @@ export default function RotaryDial({
         className="text-[9px] uppercase tracking-[0.2em] font-display"
         style={{ color: '#8a7a6a' }}
       >
-        Channel
+        {fineFrequency === null ? 'Channel' : 'Fine'}
       </span>
     </div>
   );
@@ -3,56 +3,80 @@
 /**
  * ═══════════════════════════════════════════════════
  * Static Overlay Component
- * Displays TV static/noise during channel transitions.
- * Uses SVG noise filter with rapid background-position
- * animation for authentic analog static look.
+ * Analog snow over the picture, drawn on a canvas by
+ * lib/staticNoise. Follows `signalStrength` (0 = all
+ * snow, 1 = clear) frame by frame, so a tune fades from
+ * full static into the clearing channel. Idle — no
+ * animation frames — whenever the signal is clear. In
+ * reduced motion the grain holds still and stays dim;
+ * only its density follows the signal.
  * ═══════════════════════════════════════════════════
  */
 
-import { motion, AnimatePresence } from 'framer-motion';
+import { useEffect, useRef } from 'react';
+import { useReducedMotionConfig, type MotionValue } from 'framer-motion';
+import { drawStatic, STATIC_RESOLUTION } from '@/lib/staticNoise';
 
 interface StaticOverlayProps {
-  isVisible: boolean;
+  signalStrength: MotionValue<number>;
 }
 
-export default function StaticOverlay({ isVisible }: StaticOverlayProps) {
+export default function StaticOverlay({ signalStrength }: StaticOverlayProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const reducedMotion = Boolean(useReducedMotionConfig());
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    const resize = () => {
+      canvas.width = Math.max(1, Math.round(canvas.clientWidth * STATIC_RESOLUTION));
+      canvas.height = Math.max(1, Math.round(canvas.clientHeight * STATIC_RESOLUTION));
+    };
+    resize();
+
+    let frame = 0;
+    let running = false;
+
+    const loop = (now: number) => {
+      const signal = signalStrength.get();
+      drawStatic(ctx, signal, now / 1000, !reducedMotion);
+      // Keep animating only while there is snow to animate
+      if (signal < 1 && !reducedMotion) {
+        frame = requestAnimationFrame(loop);
+      } else {
+        running = false;
+      }
+    };
+
+    const start = () => {
+      if (running) return;
+      running = true;
+      frame = requestAnimationFrame(loop);
+    };
+
+    const observer = new ResizeObserver(() => {
+      resize();
+      start();
+    });
+    observer.observe(canvas);
+    const unsubscribe = signalStrength.on('change', start);
+    start();
+
+    return () => {
+      observer.disconnect();
+      unsubscribe();
+      cancelAnimationFrame(frame);
+    };
+  }, [signalStrength, reducedMotion]);
+
   return (
-    <AnimatePresence>
-      {isVisible && (
-        <motion.div
-          className="absolute inset-0 z-30 overflow-hidden rounded-[20px]"
-          initial={{ opacity: 0 }}
-          animate={{ opacity: 1 }}
-          exit={{ opacity: 0 }}
-          transition={{ duration: 0.05 }}
-          aria-hidden="true"
-        >
-          {/* Static noise layer */}
-          <div className="static-noise absolute inset-0" />
-
-          {/* Bright scan bars that flicker */}
-          <motion.div
-            className="absolute inset-0"
-            style={{
-              background:
-                'repeating-linear-gradient(0deg, transparent, transparent 2px, rgba(255,255,255,0.03) 2px, rgba(255,255,255,0.03) 4px)',
-            }}
-            animate={{ backgroundPosition: ['0 0', '0 100px'] }}
-            transition={{ duration: 0.2, repeat: Infinity, ease: 'linear' }}
-          />
-
-          {/* Central luminance flash */}
-          <motion.div
-            className="absolute inset-0"
-            style={{
-              background:
-                'radial-gradient(ellipse at center, rgba(255,255,255,0.15) 0%, transparent 70%)',
-            }}
-            animate={{ opacity: [0.5, 1, 0.3, 0.8] }}
-            transition={{ duration: 0.1, repeat: Infinity }}
-          />
-        </motion.div>
-      )}
-    </AnimatePresence>
+    <canvas
+      ref={canvasRef}
+      className="pointer-events-none absolute inset-0 z-30 h-full w-full rounded-[20px]"
+      style={{ imageRendering: 'pixelated', opacity: reducedMotion ? 0.35 : 1 }}
+      aria-hidden="true"
+    />
   );
 }
@@ -4,7 +4,8 @@
  * ═══════════════════════════════════════════════════
  * TV Controls Component
  * Physical bezel controls: Power button, Channel Up/Down,
- * rotary dial, and power LED indicator.
+ * rotary dial, phosphor toggle, volume knob with mute,
+ * and power LED indicator.
  * Desktop: Side panel on the TV bezel
  * Mobile: Handheld remote control interface
  * ═══════════════════════════════════════════════════
@@ -13,62 +14,98 @@
 import { useRef, useCallback } from 'react';
 import { motion } from 'framer-motion';
 import RotaryDial from './RotaryDial';
-import { channels } from '@/lib/channelData';
+import VolumeKnob from './VolumeKnob';
+import { channels, getChannel, nextChannel, previousChannel } from '@/lib/channelData';
+import {
+  MOTION_PREFERENCE_DESCRIPTIONS,
+  MOTION_PREFERENCE_LABELS,
+  type MotionPreference,
+} from '@/lib/motionSafety';
+import { usePhosphorTheme } from '@/lib/usePhosphorTheme';
 
 interface TVControlsProps {
   currentChannel: number;
   isPoweredOn: boolean;
-  greenMode: boolean;
   isPlaying: boolean;
   volume: number;
+  muted: boolean;
   onChannelChange: (channel: number) => void;
+  /** Fine tuning on the rotary dial (Shift-drag), while the set is on */
+  fineFrequency: number | null;
+  canFineTune: boolean;
+  onFineTune: (frequency: number) => void;
+  onFineTuneEnd: () => void;
   onPowerToggle: () => void;
-  onPowerLongPress: () => void;
+  /** Next phosphor theme (button, or a 3s power press) */
+  onThemeCycle: () => void;
+  motionPreference: MotionPreference;
+  /** Cycle the motion override: AUTO → CALM → FULL */
+  onMotionToggle: () => void;
+  /** Settings OSD — while open, CH ▲/▼ move through its rows */
+  menuOpen: boolean;
+  onMenuToggle: () => void;
+  onMenuNavigate: (direction: 1 | -1) => void;
   onMusicToggle: () => void;
+  onMuteToggle: () => void;
   onVolumeUp: () => void;
   onVolumeDown: () => void;
+  onKeypadDigit: (digit: number) => void;
+  onKeypadEnter: () => void;
 }
 
+/** Remote keypad layout — digits plus an OK key to commit early */
+const KEYPAD_KEYS = [1, 2, 3, 4, 5, 6, 7, 8, 9, 0] as const;
+
 export default function TVControls({
   currentChannel,
   isPoweredOn,
-  greenMode,
   isPlaying,
   volume,
+  muted,
   onChannelChange,
+  fineFrequency,
+  canFineTune,
+  onFineTune,
+  onFineTuneEnd,
   onPowerToggle,
-  onPowerLongPress,
+  onThemeCycle,
+  motionPreference,
+  onMotionToggle,
+  menuOpen,
+  onMenuToggle,
+  onMenuNavigate,
   onMusicToggle,
+  onMuteToggle,
   onVolumeUp,
   onVolumeDown,
+  onKeypadDigit,
+  onKeypadEnter,
 }: TVControlsProps) {
   const powerPressTimer = useRef<NodeJS.Timeout | null>(null);
   const longPressTriggered = useRef(false);
 
   const handleChannelUp = useCallback(() => {
-    const next =
-      currentChannel >= channels.length ? 1 : currentChannel + 1;
-    onChannelChange(next);
-  }, [currentChannel, onChannelChange]);
+    if (menuOpen) onMenuNavigate(-1);
+    else onChannelChange(nextChannel(currentChannel));
+  }, [currentChannel, menuOpen, onChannelChange, onMenuNavigate]);
 
   const handleChannelDown = useCallback(() => {
-    const prev =
-      currentChannel <= 1 ? channels.length : currentChannel - 1;
-    onChannelChange(prev);
-  }, [currentChannel, onChannelChange]);
+    if (menuOpen) onMenuNavigate(1);
+    else onChannelChange(previousChannel(currentChannel));
+  }, [currentChannel, menuOpen, onChannelChange, onMenuNavigate]);
 
   /**
    * Power button press handling:
    * - Short press: toggle power
-   * - Long press (3s): toggle green phosphor mode (Easter egg!)
+   * - Long press (3s): next phosphor theme (Easter egg!)
    */
   const handlePowerDown = useCallback(() => {
     longPressTriggered.current = false;
     powerPressTimer.current = setTimeout(() => {
       longPressTriggered.current = true;
-      onPowerLongPress();
+      onThemeCycle();
     }, 3000);
-  }, [onPowerLongPress]);
+  }, [onThemeCycle]);
 
   const handlePowerUp = useCallback(() => {
     if (powerPressTimer.current) {
@@ -80,7 +117,16 @@ export default function TVControls({
     }
   }, [onPowerToggle]);
 
-  const accentColor = greenMode ? '#33ff33' : '#ff9f43';
+  /** Enter/Space fire a click with no pointer events — toggle power for those */
+  const handlePowerClick = useCallback(
+    (e: React.MouseEvent) => {
+      if (e.detail === 0) onPowerToggle();
+    },
+    [onPowerToggle]
+  );
+
+  const theme = usePhosphorTheme();
+  const accentColor = theme.accent;
 
   return (
     <>
@@ -109,6 +155,7 @@ export default function TVControls({
             style={{ width: 40, height: 40 }}
             onPointerDown={handlePowerDown}
             onPointerUp={handlePowerUp}
+            onClick={handlePowerClick}
             onPointerLeave={() => {
               if (powerPressTimer.current) {
                 clearTimeout(powerPressTimer.current);
@@ -116,7 +163,8 @@ export default function TVControls({
             }}
             whileTap={{ scale: 0.9 }}
             aria-label={isPoweredOn ? 'Power off' : 'Power on'}
-            title="Hold 3s for green mode"
+            aria-description="Hold 3 seconds to cycle the phosphor colour"
+            title="Hold 3s to cycle the phosphor colour"
           >
             {/* Power icon */}
             <svg
@@ -148,12 +196,85 @@ export default function TVControls({
           </span>
         </div>
 
+        {/* Phosphor selector — the long-press easter egg as a button */}
+        <div className="flex flex-col items-center gap-1">
+          <motion.button
+            className="tv-button"
+            style={{ width: 24, height: 24 }}
+            onClick={onThemeCycle}
+            whileTap={{ scale: 0.9 }}
+            aria-label={`Phosphor: ${theme.label}`}
+          >
+            <span
+              className="block h-2 w-2 rounded-full"
+              style={{
+                background: accentColor,
+                boxShadow: `0 0 4px ${accentColor}`,
+              }}
+            />
+          </motion.button>
+          <span
+            className="text-[8px] uppercase tracking-wider"
+            style={{ color: '#8a7a6a' }}
+          >
+            Phos
+          </span>
+        </div>
+
+        {/* Motion override — AUTO follows prefers-reduced-motion */}
+        <div className="flex flex-col items-center gap-1">
+          <motion.button
+            className="tv-button text-[7px] font-display"
+            style={{
+              width: 24,
+              height: 24,
+              color: motionPreference === 'system' ? '#666' : accentColor,
+            }}
+            onClick={onMotionToggle}
+            whileTap={{ scale: 0.9 }}
+            aria-label={`Motion: ${MOTION_PREFERENCE_DESCRIPTIONS[motionPreference]}`}
+          >
+            {MOTION_PREFERENCE_LABELS[motionPreference].charAt(0)}
+          </motion.button>
+          <span
+            className="text-[8px] uppercase tracking-wider"
+            style={{ color: '#8a7a6a' }}
+          >
+            Motion
+          </span>
+        </div>
+
+        {/* Settings menu */}
+        <div className="flex flex-col items-center gap-1">
+          <motion.button
+            className="tv-button"
+            style={{ width: 24, height: 24 }}
+            onClick={onMenuToggle}
+            whileTap={{ scale: 0.9 }}
+            aria-label="Settings menu"
+            aria-expanded={menuOpen}
+          >
+            <svg width="10" height="10" viewBox="0 0 24 24" fill={menuOpen ? accentColor : '#666'}>
+              <path d="M3 5h18v3H3zM3 10.5h18v3H3zM3 16h18v3H3z" />
+            </svg>
+          </motion.button>
+          <span
+            className="text-[8px] uppercase tracking-wider"
+            style={{ color: '#8a7a6a' }}
+          >
+            Menu
+          </span>
+        </div>
+
         {/* Rotary Dial */}
         <RotaryDial
           currentChannel={currentChannel}
           totalChannels={channels.length}
           onChannelChange={onChannelChange}
-          greenMode={greenMode}
+          fineFrequency={fineFrequency}
+          canFineTune={canFineTune}
+          onFineTune={onFineTune}
+          onFineTuneEnd={onFineTuneEnd}
         />
 
         {/* Channel Up/Down Buttons */}
@@ -198,74 +319,67 @@ export default function TVControls({
           </motion.button>
         </div>
 
-        {/* Volume knob — click to play/pause music */}
-        <div className="flex flex-col items-center gap-1">
-          <div className="relative h-[64px] w-[64px] flex items-center justify-center">
+        {/* Volume knob */}
+        <VolumeKnob
+          volume={volume}
+          muted={muted}
+          onVolumeUp={onVolumeUp}
+          onVolumeDown={onVolumeDown}
+        />
+
+        {/* Music and mute */}
+        <div className="flex items-start gap-3">
+          <div className="flex flex-col items-center gap-1">
             <motion.button
-              className="rounded-full relative cursor-pointer"
+              className="tv-button"
               style={{
-                width: 40,
-                height: 40,
-                background: 'linear-gradient(145deg, #3a3530, #1a1612)',
-                border: isPlaying
-                  ? `2px solid ${accentColor}55`
-                  : '2px solid rgba(255,255,255,0.05)',
-                boxShadow: isPlaying
-                  ? `0 4px 8px rgba(0,0,0,0.5), 0 0 12px ${accentColor}44, inset 0 1px 2px rgba(255,255,255,0.05)`
-                  : '0 4px 8px rgba(0,0,0,0.5), inset 0 1px 2px rgba(255,255,255,0.05)',
+                width: 28,
+                height: 28,
+                boxShadow: isPlaying ? `0 0 10px ${accentColor}33` : undefined,
               }}
               onClick={onMusicToggle}
               whileTap={{ scale: 0.9 }}
-              aria-label={isPlaying ? 'Pause music' : 'Play music'}
+              aria-label="Background music: Grateful by Neffex"
+              aria-pressed={isPlaying}
               title="Grateful — Neffex"
             >
-              <div
-                className="mx-auto h-1 w-3 rounded-full"
-                style={{
-                  background: isPlaying ? accentColor : '#555',
-                  boxShadow: isPlaying ? `0 0 4px ${accentColor}` : 'none',
-                }}
-              />
+              {isPlaying ? (
+                <svg width="10" height="10" viewBox="0 0 24 24" fill={accentColor}>
+                  <rect x="6" y="4" width="4" height="16" />
+                  <rect x="14" y="4" width="4" height="16" />
+                </svg>
+              ) : (
+                <svg width="10" height="10" viewBox="0 0 24 24" fill="#666">
+                  <path d="M8 5v14l11-7z" />
+                </svg>
+              )}
             </motion.button>
+            <span
+              className="text-[8px] uppercase tracking-wider"
+              style={{ color: '#8a7a6a' }}
+            >
+              Music
+            </span>
           </div>
-          <span
-            className="text-[9px] uppercase tracking-[0.2em] font-display"
-            style={{ color: isPlaying ? accentColor : '#8a7a6a' }}
-          >
-            Vol
-          </span>
-        </div>
 
-        {/* Volume Up / Down */}
-        <div className="flex flex-col items-center gap-1">
-          <motion.button
-            className="tv-button"
-            style={{ width: 28, height: 28 }}
-            onClick={onVolumeUp}
-            whileTap={{ scale: 0.9 }}
-            aria-label="Volume Up"
-          >
-            <svg width="10" height="10" viewBox="0 0 24 24" fill={accentColor}>
-              <path d="M12 4l8 8H4z" />
-            </svg>
-          </motion.button>
-          <span
-            className="text-[14px] font-display tabular-nums"
-            style={{ color: accentColor }}
-          >
-            {Math.round(volume * 100)}
-          </span>
-          <motion.button
-            className="tv-button"
-            style={{ width: 28, height: 28 }}
-            onClick={onVolumeDown}
-            whileTap={{ scale: 0.9 }}
-            aria-label="Volume Down"
-          >
-            <svg width="10" height="10" viewBox="0 0 24 24" fill={accentColor}>
-              <path d="M12 20l-8-8h16z" />
-            </svg>
-          </motion.button>
+          <div className="flex flex-col items-center gap-1">
+            <motion.button
+              className="tv-button text-[7px] font-display"
+              style={{ width: 28, height: 28, color: muted ? accentColor : '#666' }}
+              onClick={onMuteToggle}
+              whileTap={{ scale: 0.9 }}
+              aria-label="Mute"
+              aria-pressed={muted}
+            >
+              {muted ? 'ON' : 'OFF'}
+            </motion.button>
+            <span
+              className="text-[8px] uppercase tracking-wider"
+              style={{ color: '#8a7a6a' }}
+            >
+              Mute
+            </span>
+          </div>
         </div>
 
         {/* Brand logo area at bottom */}
@@ -310,11 +424,63 @@ export default function TVControls({
               className="text-xs font-display"
               style={{ color: accentColor }}
             >
-              {channels[currentChannel - 1]?.label}
+              {getChannel(currentChannel)?.label}
             </span>
-            <div
-              className={`power-led ${isPoweredOn ? 'on' : 'off'}`}
-            />
+            <div className="flex items-center gap-3">
+              <motion.button
+                className="rounded px-1.5 py-0.5 text-[8px] font-display tracking-wider"
+                style={{
+                  background: 'rgba(255,255,255,0.05)',
+                  color: accentColor,
+                }}
+                onClick={onThemeCycle}
+                whileTap={{ scale: 0.9 }}
+                aria-label={`Phosphor: ${theme.label}`}
+              >
+                PHOS
+              </motion.button>
+              <motion.button
+                className="rounded px-1.5 py-0.5 text-[8px] font-display tracking-wider"
+                style={{
+                  background: 'rgba(255,255,255,0.05)',
+                  color: motionPreference === 'system' ? '#666' : accentColor,
+                }}
+                onClick={onMotionToggle}
+                whileTap={{ scale: 0.9 }}
+                aria-label={`Motion: ${MOTION_PREFERENCE_DESCRIPTIONS[motionPreference]}`}
+              >
+                {MOTION_PREFERENCE_LABELS[motionPreference]}
+              </motion.button>
+              <motion.button
+                className="rounded px-1.5 py-0.5 text-[8px] font-display tracking-wider"
+                style={{
+                  background: 'rgba(255,255,255,0.05)',
+                  color: menuOpen ? accentColor : '#666',
+                }}
+                onClick={onMenuToggle}
+                whileTap={{ scale: 0.9 }}
+                aria-label="Settings menu"
+                aria-expanded={menuOpen}
+              >
+                MENU
+              </motion.button>
+              <motion.button
+                className="rounded px-1.5 py-0.5 text-[8px] font-display tracking-wider"
+                style={{
+                  background: 'rgba(255,255,255,0.05)',
+                  color: muted ? accentColor : '#666',
+                }}
+                onClick={onMuteToggle}
+                whileTap={{ scale: 0.9 }}
+                aria-label="Mute"
+                aria-pressed={muted}
+              >
+                MUTE
+              </motion.button>
+              <div
+                className={`power-led ${isPoweredOn ? 'on' : 'off'}`}
+              />
+            </div>
           </div>
 
           {/* Control buttons row */}
@@ -325,6 +491,7 @@ export default function TVControls({
               style={{ width: 44, height: 44 }}
               onPointerDown={handlePowerDown}
               onPointerUp={handlePowerUp}
+              onClick={handlePowerClick}
               whileTap={{ scale: 0.9 }}
               aria-label="Power"
             >
@@ -364,7 +531,8 @@ export default function TVControls({
               }}
               onClick={onMusicToggle}
               whileTap={{ scale: 0.9 }}
-              aria-label={isPlaying ? 'Pause music' : 'Play music'}
+              aria-label="Background music: Grateful by Neffex"
+              aria-pressed={isPlaying}
             >
               {isPlaying ? (
                 <svg width="16" height="16" viewBox="0 0 24 24" fill={accentColor}>
@@ -389,26 +557,29 @@ export default function TVControls({
               <span className="text-xs font-bold" style={{ color: accentColor }}>+</span>
             </motion.button>
 
-            {/* Quick channel select (1-8) */}
+            {/* Numeric keypad for direct (multi-digit) tuning */}
             <div className="grid grid-cols-4 gap-1">
-              {[1, 2, 3, 4, 5, 6, 7, 8].map((ch) => (
+              {KEYPAD_KEYS.map((digit) => (
                 <motion.button
-                  key={ch}
+                  key={digit}
                   className="flex h-5 w-5 items-center justify-center rounded text-[9px]"
-                  style={{
-                    background:
-                      ch === currentChannel
-                        ? accentColor
-                        : 'rgba(255,255,255,0.05)',
-                    color: ch === currentChannel ? '#0a0a0a' : '#666',
-                  }}
-                  onClick={() => onChannelChange(ch)}
+                  style={{ background: 'rgba(255,255,255,0.05)', color: '#666' }}
+                  onClick={() => onKeypadDigit(digit)}
                   whileTap={{ scale: 0.9 }}
-                  aria-label={`Channel ${ch}`}
+                  aria-label={`Digit ${digit}`}
                 >
-                  {ch}
+                  {digit}
                 </motion.button>
               ))}
+              <motion.button
+                className="col-span-2 flex h-5 items-center justify-center rounded text-[8px] font-display"
+                style={{ background: 'rgba(255,255,255,0.05)', color: accentColor }}
+                onClick={onKeypadEnter}
+                whileTap={{ scale: 0.9 }}
+                aria-label="Enter channel"
+              >
+                OK
+              </motion.button>
             </div>
           </div>
         </motion.div>
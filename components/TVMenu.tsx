@@ -0,0 +1,112 @@
+'use client';
+
+/**
+ * ═══════════════════════════════════════════════════
+ * TV Menu Component
+ * The on-screen settings menu, drawn like a 90s set's
+ * OSD: block-character level bars, the selected row
+ * highlighted. CRTMonitor owns the state — CH ▲/▼ (or
+ * a tap on a row) move the selection and VOL +/− adjust
+ * it — so this only renders, scrolling the list to keep
+ * the selection in view on a short screen.
+ * ═══════════════════════════════════════════════════
+ */
+
+import { useEffect, useRef } from 'react';
+import { motion } from 'framer-motion';
+import {
+  describeTVSetting,
+  isLevelSetting,
+  tvMenuItems,
+  tvSettingLevel,
+  type TVSettings,
+} from '@/lib/tvSettings';
+
+interface TVMenuProps {
+  settings: TVSettings;
+  selectedIndex: number;
+  onSelect: (index: number) => void;
+  /** Label of the active phosphor theme, for the Colour row */
+  themeLabel: string;
+  accent: string;
+  dim: string;
+}
+
+const BAR_SEGMENTS = 10;
+
+export default function TVMenu({
+  settings,
+  selectedIndex,
+  onSelect,
+  themeLabel,
+  accent,
+  dim,
+}: TVMenuProps) {
+  const selectedRef = useRef<HTMLLIElement>(null);
+  useEffect(() => {
+    selectedRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [selectedIndex]);
+
+  return (
+    <motion.div
+      className="absolute inset-0 z-40 flex items-center justify-center bg-black/60"
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      transition={{ duration: 0.15 }}
+      role="dialog"
+      aria-label="TV settings"
+    >
+      <div
+        className="flex max-h-[90%] w-[min(90%,22rem)] flex-col rounded px-4 py-3 font-display text-[11px] tracking-wider"
+        style={{ border: `1px solid ${accent}66`, background: 'rgba(0,0,0,0.75)' }}
+      >
+        <p className="mb-2 text-center crt-text" style={{ color: accent }}>
+          MENU
+        </p>
+        <ul role="listbox" aria-label="Settings" className="min-h-0 overflow-y-auto">
+          {tvMenuItems.map((item, i) => {
+            const selected = i === selectedIndex;
+            const value = item.id === 'theme' ? themeLabel : describeTVSetting(settings, item.id);
+            const filled = isLevelSetting(item.id)
+              ? Math.round(tvSettingLevel(settings, item.id) * BAR_SEGMENTS)
+              : null;
+
+            return (
+              <li
+                key={item.id}
+                ref={selected ? selectedRef : undefined}
+                role="option"
+                aria-selected={selected}
+                className="flex cursor-pointer items-center justify-between gap-3 px-2 py-0.5"
+                style={{
+                  color: selected ? '#000' : accent,
+                  background: selected ? accent : 'transparent',
+                }}
+                onClick={() => onSelect(i)}
+              >
+                <span>{item.label.toUpperCase()}</span>
+                {filled !== null ? (
+                  <span>
+                    <span aria-hidden="true">
+                      {'█'.repeat(filled)}
+                      <span style={{ color: selected ? '#0006' : `${dim}55` }}>
+                        {'█'.repeat(BAR_SEGMENTS - filled)}
+                      </span>
+                    </span>
+                    <span className="sr-only">{value}</span>
+                  </span>
+                ) : (
+                  <span>{value.toUpperCase()}</span>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+        <p className="mt-2 text-center text-[9px]" style={{ color: dim }}>
+          CH ▲▼ SELECT · VOL +/− ADJUST · MENU EXIT
+        </p>
+      </div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,123 @@
+'use client';
+
+/**
+ * ═══════════════════════════════════════════════════
+ * Volume Knob Component
+ * A rotary volume control with the channel dial's feel
+ * (lib/useRotaryKnob) — drag, wheel or flick — but with
+ * end stops: 270° from silent to full, one detent per
+ * VOL step. Exposed as an ARIA slider; arrows step it.
+ * ═══════════════════════════════════════════════════
+ */
+
+import { useCallback } from 'react';
+import { motion } from 'framer-motion';
+import { useRotaryKnob } from '@/lib/useRotaryKnob';
+import { usePhosphorTheme } from '@/lib/usePhosphorTheme';
+
+interface VolumeKnobProps {
+  volume: number;
+  muted: boolean;
+  onVolumeUp: () => void;
+  onVolumeDown: () => void;
+}
+
+/** Detents from silent to full (the VOL buttons step by a tenth) */
+const VOLUME_STEPS = 10;
+const DEGREES_PER_STEP = 27;
+const KNOB_RANGE: [number, number] = [0, VOLUME_STEPS];
+/** Silent points the notch at seven o'clock */
+const ZERO_ANGLE = -135;
+
+export default function VolumeKnob({ volume, muted, onVolumeUp, onVolumeDown }: VolumeKnobProps) {
+  const handleStep = useCallback(
+    (_position: number, direction: 1 | -1) => {
+      if (direction > 0) onVolumeUp();
+      else onVolumeDown();
+    },
+    [onVolumeUp, onVolumeDown]
+  );
+
+  const { knobRef, rotation, handlers } = useRotaryKnob({
+    position: Math.round(volume * VOLUME_STEPS),
+    degreesPerStep: DEGREES_PER_STEP,
+    range: KNOB_RANGE,
+    onStep: handleStep,
+  });
+
+  /** Arrow keys step the volume; handled keys stop here so they don't tune */
+  const handleKeyDown = useCallback(
+    (e: React.KeyboardEvent) => {
+      const steps: Record<string, () => void> = {
+        ArrowRight: onVolumeUp,
+        ArrowUp: onVolumeUp,
+        ArrowLeft: onVolumeDown,
+        ArrowDown: onVolumeDown,
+      };
+      if (!steps[e.key]) return;
+      e.preventDefault();
+      e.stopPropagation();
+      steps[e.key]();
+    },
+    [onVolumeUp, onVolumeDown]
+  );
+
+  const indicatorColor = usePhosphorTheme().accent;
+  const level = Math.round(volume * 100);
+
+  return (
+    <div className="flex flex-col items-center gap-1">
+      <div className="relative flex h-[64px] w-[64px] items-center justify-center">
+        {/* Level ticks from silent to full */}
+        {Array.from({ length: VOLUME_STEPS + 1 }, (_, i) => {
+          const angle = (ZERO_ANGLE + i * DEGREES_PER_STEP - 90) * (Math.PI / 180);
+          const lit = !muted && i <= Math.round(volume * VOLUME_STEPS) && i > 0;
+          return (
+            <span
+              key={i}
+              aria-hidden="true"
+              className="absolute h-1 w-1 rounded-full"
+              style={{
+                left: 32 + 28 * Math.cos(angle),
+                top: 32 + 28 * Math.sin(angle),
+                transform: 'translate(-50%, -50%)',
+                background: lit ? indicatorColor : '#444',
+                boxShadow: lit ? `0 0 3px ${indicatorColor}` : 'none',
+              }}
+            />
+          );
+        })}
+
+        <motion.div
+          ref={knobRef}
+          className="rotary-dial"
+          style={{ rotate: ZERO_ANGLE + rotation }}
+          {...handlers}
+          onKeyDown={handleKeyDown}
+          whileTap={{ scale: 0.95 }}
+          role="slider"
+          aria-label="Volume"
+          aria-valuenow={level}
+          aria-valuemin={0}
+          aria-valuemax={100}
+          aria-valuetext={muted ? `Muted, volume ${level}` : `Volume ${level}`}
+          tabIndex={0}
+        >
+          <div
+            className="rotary-notch"
+            style={{
+              background: muted ? '#555' : indicatorColor,
+              boxShadow: muted ? 'none' : `0 0 4px ${indicatorColor}`,
+            }}
+          />
+        </motion.div>
+      </div>
+      <span
+        className="text-[9px] uppercase tracking-[0.2em] font-display"
+        style={{ color: '#8a7a6a' }}
+      >
+        Vol
+      </span>
+    </div>
+  );
+}
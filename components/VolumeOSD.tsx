@@ -0,0 +1,61 @@
+'use client';
+
+/**
+ * ═══════════════════════════════════════════════════
+ * Volume OSD Component
+ * The classic green-bar volume readout along the
+ * bottom of the picture. CRTMonitor shows it whenever
+ * the volume or mute changes and lets it fade out a
+ * couple of seconds later; it only renders.
+ * ═══════════════════════════════════════════════════
+ */
+
+import { motion } from 'framer-motion';
+
+interface VolumeOSDProps {
+  volume: number;
+  muted: boolean;
+}
+
+/** One bar per 5% — the volume steps by two bars */
+const BAR_SEGMENTS = 20;
+
+/** Volume bars are green on every set, whatever the phosphor */
+const BAR_GREEN = '#3ddc5a';
+
+export default function VolumeOSD({ volume, muted }: VolumeOSDProps) {
+  const filled = Math.round(volume * BAR_SEGMENTS);
+  const level = Math.round(volume * 100);
+
+  return (
+    <motion.div
+      className="pointer-events-none absolute inset-x-0 bottom-6 z-40 flex justify-center"
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0, transition: { duration: 0.6 } }}
+      transition={{ duration: 0.1 }}
+      aria-hidden="true"
+    >
+      <div
+        className="flex items-center gap-3 rounded bg-black/70 px-3 py-2 font-display text-[11px] tracking-wider"
+        style={{ color: BAR_GREEN, textShadow: `0 0 6px ${BAR_GREEN}` }}
+      >
+        <span>{muted ? 'MUTE' : 'VOLUME'}</span>
+        <div className="flex items-end gap-[2px]">
+          {Array.from({ length: BAR_SEGMENTS }, (_, i) => (
+            <span
+              key={i}
+              className="block w-[5px]"
+              style={{
+                height: 6 + i * 0.5,
+                background: BAR_GREEN,
+                opacity: i < filled ? (muted ? 0.3 : 1) : 0.12,
+              }}
+            />
+          ))}
+        </div>
+        <span className="w-6 text-right tabular-nums">{muted ? '--' : level}</span>
+      </div>
+    </motion.div>
+  );
+}
@@ -1,28 +1,101 @@
 /**
  * ═══════════════════════════════════════════════════
  * Channel Data Configuration
- * Defines all 8 TV channels with metadata and content
+ * Defines the TV channel lineup with metadata and content
  * ═══════════════════════════════════════════════════
  */
 
-export interface Channel {
-  number: number;
+import { contributionResource, pinnedReposResource } from './githubApi';
+import { prefetch } from './dataCache';
+
+/** Views registered in ChannelContent — each channel names one */
+export type ChannelView =
+  | 'about'
+  | 'experience'
+  | 'skills'
+  | 'projects'
+  | 'proof-of-work'
+  | 'quotes'
+  | 'blog'
+  | 'contact';
+
+export interface ChannelDefinition {
   name: string;
   label: string;
   icon: string;
+  /** Which view component renders this channel */
+  component: ChannelView;
+  /** Whether the content overflows and shows a scroll hint */
+  scrollable: boolean;
+  /** Where the scroll hint sits (defaults to bottom) */
+  scrollHint?: 'top' | 'bottom';
+  /** Warms the data cache for channels backed by remote data */
+  loader?: () => Promise<unknown>;
 }
 
-export const channels: Channel[] = [
-  { number: 1, name: 'about', label: 'About Me', icon: '👤' },
-  { number: 2, name: 'experience', label: 'Experience', icon: '💼' },
-  { number: 3, name: 'skills', label: 'Skills', icon: '⚡' },
-  { number: 4, name: 'projects', label: 'Projects', icon: '📂' },
-  { number: 5, name: 'proof-of-work', label: 'Proof of Work', icon: '📊' },
-  { number: 6, name: 'quotes', label: 'Quotes', icon: '💬' },
-  { number: 7, name: 'blog', label: 'Blog/Writing', icon: '✍️' },
-  { number: 8, name: 'contact', label: 'Contact', icon: '📡' },
+export interface Channel extends ChannelDefinition {
+  /** 1-based position on the dial, derived from array order */
+  number: number;
+}
+
+/**
+ * Channel lineup — the single source of truth for the TV.
+ * Order here is the order on the dial; numbers are assigned
+ * automatically, so adding, removing or reordering a channel
+ * is a one-line change.
+ */
+const channelDefinitions: ChannelDefinition[] = [
+  { name: 'about', label: 'About Me', icon: '👤', component: 'about', scrollable: false },
+  { name: 'experience', label: 'Experience', icon: '💼', component: 'experience', scrollable: true },
+  { name: 'skills', label: 'Skills', icon: '⚡', component: 'skills', scrollable: true },
+  {
+    name: 'projects',
+    label: 'Projects',
+    icon: '📂',
+    component: 'projects',
+    scrollable: true,
+    loader: () => prefetch(pinnedReposResource),
+  },
+  {
+    name: 'proof-of-work',
+    label: 'Proof of Work',
+    icon: '📊',
+    component: 'proof-of-work',
+    scrollable: false,
+    loader: () => prefetch(contributionResource()),
+  },
+  { name: 'quotes', label: 'Quotes', icon: '💬', component: 'quotes', scrollable: false },
+  { name: 'blog', label: 'Blog/Writing', icon: '✍️', component: 'blog', scrollable: true },
+  {
+    name: 'contact',
+    label: 'Contact',
+    icon: '📡',
+    component: 'contact',
+    scrollable: true,
+    scrollHint: 'top',
+  },
 ];
 
+export const channels: Channel[] = channelDefinitions.map((definition, index) => ({
+  ...definition,
+  number: index + 1,
+}));
+
+/** Look up a channel by its dial number */
+export function getChannel(number: number): Channel | undefined {
+  return channels[number - 1];
+}
+
+/** Next channel number, wrapping around the dial */
+export function nextChannel(current: number): number {
+  return current >= channels.length ? 1 : current + 1;
+}
+
+/** Previous channel number, wrapping around the dial */
+export function previousChannel(current: number): number {
+  return current <= 1 ? channels.length : current - 1;
+}
+
 /** Personal bio & information */
 export const personalInfo = {
   name: 'Suhan Shrestha',
@@ -35,8 +108,42 @@ export const personalInfo = {
   linkedin: 'https://www.linkedin.com/in/suhan-shrestha-9223b1247/',
   github: 'suhanstha09',
   githubUrl: 'https://github.com/suhanstha09',
+  /** Availability, shown on CH 1 */
+  status: 'Open to opportunities',
 };
 
+/** Call to action above the contact links on CH 8 */
+export const contactPitch =
+  "Open to freelance projects, collaborations, and full-time opportunities. Let's build something remarkable together.";
+
+/** Contact links for CH 8 */
+export const contactLinks = [
+  {
+    label: 'Email',
+    value: personalInfo.email,
+    href: `mailto:${personalInfo.email}`,
+    icon: '📧',
+  },
+  {
+    label: 'LinkedIn',
+    value: 'Suhan Shrestha',
+    href: personalInfo.linkedin,
+    icon: '💼',
+  },
+  {
+    label: 'GitHub',
+    value: `@${personalInfo.github}`,
+    href: personalInfo.githubUrl,
+    icon: '💻',
+  },
+  {
+    label: 'Location',
+    value: personalInfo.location,
+    href: `https://maps.google.com/?q=${encodeURIComponent(personalInfo.location)}`,
+    icon: '📍',
+  },
+];
+
 /** Work experience data */
 export const experiences = [
   {
@@ -158,5 +265,12 @@ export const quotes = [
   },
 ];
 
+/** The blog channel, until there are posts to list */
+export const blogInfo = {
+  status: 'Coming soon',
+  teaser:
+    "I'm preparing thoughtful articles on web development, frontend architecture, and my journey from frontend specialist to full-stack developer. Stay tuned.",
+};
+
 /** Repos to exclude from GitHub display */
 export const excludedRepos = ['netflix-clone', 'dropbox-clone'];
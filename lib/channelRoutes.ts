@@ -0,0 +1,39 @@
+/**
+ * ═══════════════════════════════════════════════════
+ * Channel Routes
+ * Maps channels to shareable URLs and back. Links are
+ * keyed on Channel.name (e.g. /?ch=projects), while
+ * /ch/4 and /ch/projects work as short aliases.
+ * ═══════════════════════════════════════════════════
+ */
+
+import { channels, getChannel, type Channel } from './channelData';
+
+/** Query parameter that carries the tuned channel */
+export const CHANNEL_PARAM = 'ch';
+
+/**
+ * Resolve a route parameter to a channel. Accepts either the
+ * channel name ("projects") or its dial number ("4").
+ */
+export function resolveChannel(param: string | string[] | null | undefined): Channel | undefined {
+  const value = Array.isArray(param) ? param[0] : param;
+  if (!value) return undefined;
+
+  const key = value.trim().toLowerCase();
+  if (/^\d+$/.test(key)) {
+    return getChannel(parseInt(key, 10));
+  }
+  return channels.find((channel) => channel.name === key);
+}
+
+/** Canonical URL for a channel */
+export function channelPath(channel: number): string {
+  const entry = getChannel(channel);
+  return entry ? `/?${CHANNEL_PARAM}=${entry.name}` : '/';
+}
+
+/** Channel number encoded in a URL search string, if any */
+export function channelFromSearch(search: string): number | undefined {
+  return resolveChannel(new URLSearchParams(search).get(CHANNEL_PARAM))?.number;
+}
@@ -0,0 +1,65 @@
+/**
+ * ═══════════════════════════════════════════════════
+ * Contribution Periods
+ * Which slice of the contribution calendar to show:
+ * a calendar year, or the rolling last 12 months.
+ * Shared by the /api/contributions route and CH 5.
+ * ═══════════════════════════════════════════════════
+ */
+
+export const ROLLING_PERIOD = 'rolling';
+
+/** A calendar year, or the rolling last 12 months */
+export type ContributionPeriod = number | typeof ROLLING_PERIOD;
+
+/** GitHub launched in 2008 — nothing to show before that */
+export const FIRST_CONTRIBUTION_YEAR = 2008;
+
+/** ISO date (YYYY-MM-DD) of a Date, in UTC */
+export function toISODate(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+/**
+ * Parse a `year` query value. Missing means rolling; anything
+ * that isn't "rolling" or a year GitHub existed in is null.
+ */
+export function parseContributionPeriod(
+  value: string | null,
+  today: Date = new Date()
+): ContributionPeriod | null {
+  if (!value || value === ROLLING_PERIOD) return ROLLING_PERIOD;
+  if (!/^\d{4}$/.test(value)) return null;
+
+  const year = parseInt(value, 10);
+  if (year < FIRST_CONTRIBUTION_YEAR || year > today.getUTCFullYear()) return null;
+  return year;
+}
+
+/** Inclusive date range (YYYY-MM-DD) covered by a period */
+export function getPeriodRange(
+  period: ContributionPeriod,
+  today: Date = new Date()
+): { from: string; to: string } {
+  if (period === ROLLING_PERIOD) {
+    const from = new Date(
+      Date.UTC(today.getUTCFullYear() - 1, today.getUTCMonth(), today.getUTCDate() + 1)
+    );
+    return { from: toISODate(from), to: toISODate(today) };
+  }
+  return { from: `${period}-01-01`, to: `${period}-12-31` };
+}
+
+/** Periods in stepping order, newest first: rolling, this year, last year, … */
+export function listContributionPeriods(today: Date = new Date()): ContributionPeriod[] {
+  const periods: ContributionPeriod[] = [ROLLING_PERIOD];
+  for (let year = today.getUTCFullYear(); year >= FIRST_CONTRIBUTION_YEAR; year--) {
+    periods.push(year);
+  }
+  return periods;
+}
+
+/** Human label for a period */
+export function formatContributionPeriod(period: ContributionPeriod): string {
+  return period === ROLLING_PERIOD ? 'Last 12 months' : String(period);
+}
@@ -0,0 +1,114 @@
+/**
+ * ═══════════════════════════════════════════════════
+ * Contribution Analytics
+ * Derived statistics for the contribution calendar:
+ * streaks, best day, average per active day, weekday
+ * histogram and monthly totals. Pure functions, run on
+ * the server next to the calendar scrape.
+ * ═══════════════════════════════════════════════════
+ */
+
+import type { ContributionDay, ContributionWeek } from './githubApi';
+
+export interface ContributionStats {
+  /**
+   * Consecutive active days ending today (or yesterday, if today is
+   * still empty). Only the rolling period has one — null for years.
+   */
+  currentStreak: number | null;
+  longestStreak: number;
+  bestDay: { date: string; count: number } | null;
+  activeDays: number;
+  /** Mean contributions on days with at least one contribution */
+  averagePerActiveDay: number;
+  /** Contribution totals indexed Sunday (0) through Saturday (6) */
+  weekdayTotals: number[];
+  /** Totals per calendar month in the period, oldest first (month = YYYY-MM) */
+  monthlyTotals: { month: string; total: number }[];
+}
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/** Stats for an empty calendar */
+export const EMPTY_CONTRIBUTION_STATS: ContributionStats = {
+  currentStreak: null,
+  longestStreak: 0,
+  bestDay: null,
+  activeDays: 0,
+  averagePerActiveDay: 0,
+  weekdayTotals: [0, 0, 0, 0, 0, 0, 0],
+  monthlyTotals: [],
+};
+
+/**
+ * Compute stats over the days of `weeks` that fall inside
+ * [from, to] — the grid pads whole weeks on both ends, and
+ * those padding days must not count. `ongoing` says the range
+ * runs up to today, so a current streak means something.
+ */
+export function computeContributionStats(
+  weeks: ContributionWeek[],
+  from: string,
+  to: string,
+  ongoing: boolean
+): ContributionStats {
+  const days: ContributionDay[] = weeks
+    .flatMap((week) => week.days)
+    .filter((day) => day.date >= from && day.date <= to)
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  if (days.length === 0) {
+    return { ...EMPTY_CONTRIBUTION_STATS, currentStreak: ongoing ? 0 : null };
+  }
+
+  let longestStreak = 0;
+  let runningStreak = 0;
+  let bestDay: ContributionStats['bestDay'] = null;
+  let activeDays = 0;
+  let total = 0;
+  const weekdayTotals = [0, 0, 0, 0, 0, 0, 0];
+  const monthly = new Map<string, number>();
+
+  for (const day of days) {
+    const month = day.date.slice(0, 7);
+    monthly.set(month, (monthly.get(month) ?? 0) + day.count);
+    weekdayTotals[new Date(`${day.date}T00:00:00Z`).getUTCDay()] += day.count;
+
+    if (day.count > 0) {
+      activeDays++;
+      total += day.count;
+      runningStreak++;
+      longestStreak = Math.max(longestStreak, runningStreak);
+      if (!bestDay || day.count > bestDay.count) {
+        bestDay = { date: day.date, count: day.count };
+      }
+    } else {
+      runningStreak = 0;
+    }
+  }
+
+  // Walk back from the last day; an empty "today" doesn't break the streak yet
+  let currentStreak: number | null = null;
+  if (ongoing) {
+    currentStreak = 0;
+    let i = days.length - 1;
+    if (days[i].count === 0) i--;
+    for (; i >= 0 && days[i].count > 0; i--) currentStreak++;
+  }
+
+  return {
+    currentStreak,
+    longestStreak,
+    bestDay,
+    activeDays,
+    averagePerActiveDay: activeDays > 0 ? Math.round((total / activeDays) * 10) / 10 : 0,
+    weekdayTotals,
+    monthlyTotals: Array.from(monthly, ([month, monthTotal]) => ({ month, total: monthTotal })),
+  };
+}
+
+/** Phosphor-style ASCII bar, e.g. "██████░░░░" */
+export function asciiBar(value: number, max: number, width = 16): string {
+  const filled = max > 0 ? Math.round((value / max) * width) : 0;
+  return '█'.repeat(filled) + '░'.repeat(width - filled);
+}
@@ -0,0 +1,77 @@
+/**
+ * ═══════════════════════════════════════════════════
+ * Contributions Provider (server-side)
+ * Scrapes the contribution calendar for a period and
+ * derives its stats. Shared by /api/contributions and
+ * the server-rendered home page.
+ * ═══════════════════════════════════════════════════
+ */
+
+import {
+  getPeriodRange,
+  ROLLING_PERIOD,
+  toISODate,
+  type ContributionPeriod,
+} from './contributionPeriod';
+import { computeContributionStats, type ContributionStats } from './contributionStats';
+import type { ContributionWeek } from './githubApi';
+import { githubFetch } from './githubFetch';
+import { parseContributionCalendar } from './githubParsers';
+import { GITHUB_WEB_URL } from './githubUpstream';
+import { withLastGood, type CachedResult } from './upstreamCache';
+
+const GITHUB_USERNAME = 'suhanstha09';
+
+/** Calendar, total and stats for one period, as the API route returns them */
+export interface ContributionsResult {
+  weeks: ContributionWeek[];
+  totalContributions: number;
+  stats: ContributionStats;
+  period: ContributionPeriod;
+  from: string;
+  to: string;
+}
+
+/** Scrape the contribution calendar for [from, to] and derive its stats */
+async function fetchContributions(from: string, to: string, ongoing: boolean) {
+  const response = await githubFetch(
+    `${GITHUB_WEB_URL}/users/${GITHUB_USERNAME}/contributions?from=${from}&to=${to}`,
+    {
+      headers: {
+        'User-Agent': 'Mozilla/5.0',
+        Accept: 'text/html',
+      },
+      next: { revalidate: 3600 },
+    }
+  );
+
+  if (!response.ok) {
+    throw new Error(`GitHub error: ${response.status}`);
+  }
+
+  const { weeks, totalContributions } = parseContributionCalendar(
+    await response.text(),
+    from,
+    to
+  );
+
+  // Derived analytics — future days of the current year don't count
+  const today = toISODate(new Date());
+  const stats = computeContributionStats(weeks, from, to < today ? to : today, ongoing);
+
+  return { weeks, totalContributions, stats };
+}
+
+/**
+ * Contributions for a period, falling back to the last good
+ * copy (see lib/upstreamCache) when GitHub fails.
+ */
+export async function getCachedContributions(
+  period: ContributionPeriod
+): Promise<CachedResult<ContributionsResult>> {
+  const { from, to } = getPeriodRange(period);
+  const result = await withLastGood(`contributions:${from}:${to}`, () =>
+    fetchContributions(from, to, period === ROLLING_PERIOD)
+  );
+  return { ...result, data: { ...result.data, period, from, to } };
+}
@@ -0,0 +1,331 @@
+/**
+ * ═══════════════════════════════════════════════════
+ * CRT Shader
+ * WebGL version of the tube: barrel distortion with
+ * misconverged red and blue toward the edges, phosphor
+ * bloom, an aperture-grille shadow mask, scanlines,
+ * vignette, flicker and grain, and a glass highlight.
+ *
+ * The 'picture' pass does all of it to a snapshot of
+ * the channel (lib/screenSnapshot) uploaded as a
+ * texture; the live DOM stays underneath for pointer,
+ * keyboard and screen-reader use. Until a snapshot is
+ * ready, or where the browser won't take one, the two
+ * overlay passes stand in, composited by the browser:
+ * 'multiply' darkens the live picture per colour channel
+ * (mask, scanlines, vignette, the black glass edge) and
+ * 'screen' adds light (a flat bloom, the reflection).
+ *
+ * detectWebGL() decides whether CRTMonitor uses this or
+ * the CSS layers in globals.css.
+ * ═══════════════════════════════════════════════════
+ */
+
+import type { PhosphorTheme } from './phosphorThemes';
+import type { TVSettings } from './tvSettings';
+
+/** What a canvas draws: the whole picture, or an overlay for its CSS mix-blend-mode */
+export type CRTShaderPass = 'picture' | 'multiply' | 'screen';
+
+export interface CRTShaderParams {
+  /** Barrel distortion, 0 (flat) – 0.2 */
+  curvature: number;
+  /** Strengths, 0–1 */
+  scanlines: number;
+  mask: number;
+  vignette: number;
+  glass: number;
+  bloom: number;
+  flicker: number;
+  noise: number;
+  /** Phosphor glow colour as an "r, g, b" triplet */
+  glow: string;
+}
+
+/** Barrel distortion at the menu's full Curvature */
+const MAX_CURVATURE = 0.2;
+
+/** Shader parameters for the current menu settings and theme */
+export function crtShaderParams(
+  settings: TVSettings,
+  theme: PhosphorTheme,
+  reducedMotion: boolean
+): CRTShaderParams {
+  const animated = settings.flicker && !reducedMotion;
+  return {
+    curvature: (settings.curvature / 100) * MAX_CURVATURE,
+    scanlines: settings.scanlines / 100,
+    mask: settings.mask / 100,
+    vignette: settings.vignette / 100,
+    glass: settings.glass / 100,
+    bloom: settings.bloom / 100,
+    flicker: animated ? 1 : 0,
+    noise: animated ? settings.grain / 100 : 0,
+    glow: theme.glow,
+  };
+}
+
+const VERTEX_SHADER = `
+attribute vec2 aPosition;
+varying vec2 vUv;
+
+void main() {
+  vUv = aPosition * 0.5 + 0.5;
+  gl_Position = vec4(aPosition, 0.0, 1.0);
+}
+`;
+
+const FRAGMENT_SHADER = `
+// Scanline phase runs into the thousands — mediump can't hold it
+#ifdef GL_FRAGMENT_PRECISION_HIGH
+precision highp float;
+#else
+precision mediump float;
+#endif
+
+varying vec2 vUv;
+uniform sampler2D uPicture;
+uniform vec2 uResolution;
+uniform float uTime;
+uniform float uPass;
+uniform float uCurvature;
+uniform float uScanlines;
+uniform float uMask;
+uniform float uVignette;
+uniform float uGlass;
+uniform float uBloom;
+uniform float uFlicker;
+uniform float uNoise;
+uniform vec3 uGlow;
+
+const float PI = 3.14159265;
+
+vec2 barrel(vec2 uv) {
+  vec2 c = uv * 2.0 - 1.0;
+  c += c * (c.yx * c.yx) * uCurvature;
+  return c * 0.5 + 0.5;
+}
+
+float hash(vec2 p) {
+  return fract(sin(dot(p, vec2(12.9898, 78.233))) * 43758.5453);
+}
+
+// How much light gets through: white leaves the picture alone
+vec3 shade(vec2 uv, float vignette) {
+  vec3 color = vec3(1.0);
+
+  // Scanlines every 3 device pixels, bent with the tube
+  float scan = 0.5 + 0.5 * cos(uv.y * uResolution.y * 2.0 * PI / 3.0);
+  color *= 1.0 - uScanlines * 0.3 * (1.0 - scan);
+
+  // Aperture grille: each column favours one phosphor colour
+  float column = mod(floor(gl_FragCoord.x), 3.0);
+  vec3 triad = vec3(column == 0.0, column == 1.0, column == 2.0);
+  color *= mix(vec3(1.0), vec3(0.72) + triad * 0.28, uMask);
+
+  color *= mix(1.0, vignette, uVignette);
+
+  // Hum and a slow rolling band
+  float hum = 0.5 + 0.5 * sin(uTime * 47.0);
+  float band = smoothstep(0.0, 0.15, abs(fract(uv.y - uTime * 0.08) - 0.5));
+  color *= 1.0 - uFlicker * (0.02 * hum + 0.03 * (1.0 - band));
+
+  color *= 1.0 - uNoise * 0.12 * hash(gl_FragCoord.xy + fract(uTime) * 100.0);
+  return color;
+}
+
+// Light off the glass: black leaves the picture alone
+vec3 reflection(vec2 uv) {
+  float highlight = 1.0 - smoothstep(0.0, 0.45, length((uv - vec2(0.25, 0.8)) * vec2(1.0, 1.6)));
+  return vec3(uGlass * 0.05 * highlight);
+}
+
+// Bright phosphor bleeding into its neighbours: two rings of taps
+vec3 bloom(vec2 uv) {
+  vec3 glow = vec3(0.0);
+  for (int i = 0; i < 8; i++) {
+    float angle = float(i) * PI / 4.0;
+    vec2 tap = vec2(cos(angle), sin(angle)) / uResolution;
+    glow += max(texture2D(uPicture, uv + tap * 3.0).rgb - 0.35, 0.0);
+    glow += max(texture2D(uPicture, uv + tap * 8.0).rgb - 0.35, 0.0) * 0.5;
+  }
+  return glow / 6.0;
+}
+
+void main() {
+  vec2 uv = barrel(vUv);
+  // Outside the curved tube is the black glass edge, on every pass
+  if (uv.x < 0.0 || uv.x > 1.0 || uv.y < 0.0 || uv.y > 1.0) {
+    gl_FragColor = vec4(0.0, 0.0, 0.0, 1.0);
+    return;
+  }
+  float vignette = pow(clamp(16.0 * uv.x * uv.y * (1.0 - uv.x) * (1.0 - uv.y), 0.0, 1.0), 0.3);
+
+  if (uPass < 0.5) {
+    gl_FragColor = vec4(shade(uv, vignette), 1.0);
+  } else if (uPass < 1.5) {
+    // Screen overlay: no picture to bloom, so a flat phosphor glow
+    gl_FragColor = vec4(uGlow * uBloom * 0.05 * vignette + reflection(uv), 1.0);
+  } else {
+    // Misconvergence: red and blue drift apart toward the edges,
+    // more so the more the tube curves
+    vec2 spread = (uv - 0.5) * uCurvature * 0.03;
+    vec3 picture = vec3(
+      texture2D(uPicture, uv + spread).r,
+      texture2D(uPicture, uv).g,
+      texture2D(uPicture, uv - spread).b
+    );
+    picture += bloom(uv) * uBloom;
+    gl_FragColor = vec4(picture * shade(uv, vignette) + reflection(uv), 1.0);
+  }
+}
+`;
+
+export interface CRTRenderer {
+  /** Draw one frame at `time` seconds */
+  render: (params: CRTShaderParams, time: number) => void;
+  /** Match the drawing buffer to the canvas's CSS size */
+  resize: () => void;
+  /** Upload the picture the 'picture' pass draws; false if the browser won't (a tainted canvas) */
+  setPicture: (picture: HTMLCanvasElement) => boolean;
+  dispose: () => void;
+}
+
+/** uPass in the fragment shader */
+const PASS_INDEX: Record<CRTShaderPass, number> = { multiply: 0, screen: 1, picture: 2 };
+
+function compile(gl: WebGLRenderingContext, type: number, source: string): WebGLShader | null {
+  const shader = gl.createShader(type);
+  if (!shader) return null;
+  gl.shaderSource(shader, source);
+  gl.compileShader(shader);
+  if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+    gl.deleteShader(shader);
+    return null;
+  }
+  return shader;
+}
+
+function parseGlow(glow: string): [number, number, number] {
+  const [r, g, b] = glow.split(',').map((part) => Number(part.trim()) / 255);
+  return [r || 0, g || 0, b || 0];
+}
+
+/** Hardware WebGL, without a software-rendering fallback */
+export function detectWebGL(): boolean {
+  if (typeof document === 'undefined') return false;
+  try {
+    const canvas = document.createElement('canvas');
+    const gl = canvas.getContext('webgl', { failIfMajorPerformanceCaveat: true });
+    if (!gl) return false;
+    gl.getExtension('WEBGL_lose_context')?.loseContext();
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** A renderer for one pass on `canvas`, or null if WebGL won't set up */
+export function createCRTRenderer(
+  canvas: HTMLCanvasElement,
+  pass: CRTShaderPass
+): CRTRenderer | null {
+  const gl = canvas.getContext('webgl', { premultipliedAlpha: false, antialias: false });
+  if (!gl) return null;
+
+  const vertex = compile(gl, gl.VERTEX_SHADER, VERTEX_SHADER);
+  const fragment = compile(gl, gl.FRAGMENT_SHADER, FRAGMENT_SHADER);
+  const program = gl.createProgram();
+  if (!vertex || !fragment || !program) return null;
+
+  gl.attachShader(program, vertex);
+  gl.attachShader(program, fragment);
+  gl.linkProgram(program);
+  if (!gl.getProgramParameter(program, gl.LINK_STATUS)) return null;
+  gl.useProgram(program);
+
+  // One triangle pair covering the canvas
+  const buffer = gl.createBuffer();
+  gl.bindBuffer(gl.ARRAY_BUFFER, buffer);
+  gl.bufferData(gl.ARRAY_BUFFER, new Float32Array([-1, -1, 1, -1, -1, 1, 1, 1]), gl.STATIC_DRAW);
+  const position = gl.getAttribLocation(program, 'aPosition');
+  gl.enableVertexAttribArray(position);
+  gl.vertexAttribPointer(position, 2, gl.FLOAT, false, 0, 0);
+
+  // The picture, until setPicture gives it one: a single black texel
+  const texture = gl.createTexture();
+  gl.bindTexture(gl.TEXTURE_2D, texture);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+  const black = new Uint8Array([0, 0, 0, 255]);
+  gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, 1, 1, 0, gl.RGBA, gl.UNSIGNED_BYTE, black);
+  // Canvas rows run top-down, texture coordinates bottom-up
+  gl.pixelStorei(gl.UNPACK_FLIP_Y_WEBGL, true);
+
+  const uniform = (name: string) => gl.getUniformLocation(program, name);
+  const u = {
+    picture: uniform('uPicture'),
+    resolution: uniform('uResolution'),
+    time: uniform('uTime'),
+    pass: uniform('uPass'),
+    curvature: uniform('uCurvature'),
+    scanlines: uniform('uScanlines'),
+    mask: uniform('uMask'),
+    vignette: uniform('uVignette'),
+    glass: uniform('uGlass'),
+    bloom: uniform('uBloom'),
+    flicker: uniform('uFlicker'),
+    noise: uniform('uNoise'),
+    glow: uniform('uGlow'),
+  };
+
+  const resize = () => {
+    const ratio = Math.min(window.devicePixelRatio || 1, 2);
+    const width = Math.round(canvas.clientWidth * ratio);
+    const height = Math.round(canvas.clientHeight * ratio);
+    if (canvas.width !== width || canvas.height !== height) {
+      canvas.width = width;
+      canvas.height = height;
+    }
+    gl.viewport(0, 0, canvas.width, canvas.height);
+  };
+
+  const render = (params: CRTShaderParams, time: number) => {
+    gl.uniform2f(u.resolution, canvas.width, canvas.height);
+    gl.uniform1f(u.time, time);
+    gl.uniform1i(u.picture, 0);
+    gl.uniform1f(u.pass, PASS_INDEX[pass]);
+    gl.uniform1f(u.curvature, params.curvature);
+    gl.uniform1f(u.scanlines, params.scanlines);
+    gl.uniform1f(u.mask, params.mask);
+    gl.uniform1f(u.vignette, params.vignette);
+    gl.uniform1f(u.glass, params.glass);
+    gl.uniform1f(u.bloom, params.bloom);
+    gl.uniform1f(u.flicker, params.flicker);
+    gl.uniform1f(u.noise, params.noise);
+    gl.uniform3f(u.glow, ...parseGlow(params.glow));
+    gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4);
+  };
+
+  const setPicture = (picture: HTMLCanvasElement) => {
+    try {
+      gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, picture);
+      return true;
+    } catch {
+      return false;
+    }
+  };
+
+  const dispose = () => {
+    gl.deleteTexture(texture);
+    gl.deleteBuffer(buffer);
+    gl.deleteProgram(program);
+    gl.deleteShader(vertex);
+    gl.deleteShader(fragment);
+  };
+
+  resize();
+  return { render, resize, setPicture, dispose };
+}
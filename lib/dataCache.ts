@@ -0,0 +1,99 @@
+/**
+ * ═══════════════════════════════════════════════════
+ * Client Data Cache
+ * Stale-while-revalidate cache for the GitHub-backed
+ * channels. Results live in memory and sessionStorage,
+ * so remounting a channel (every tune remounts it)
+ * renders instantly; concurrent requests for the same
+ * key share one fetch, and anything older than
+ * FRESH_FOR_MS is quietly refetched in the background
+ * (see lib/useCachedResource).
+ * ═══════════════════════════════════════════════════
+ */
+
+import type { GitHubResult } from './githubApi';
+
+/** How long a cached result is served without revalidating */
+const FRESH_FOR_MS = 60_000;
+
+const STORAGE_PREFIX = 'tv-cache:';
+
+/** A cacheable piece of remote data: its key and how to load it */
+export interface CachedResource<T> {
+  key: string;
+  load: () => Promise<GitHubResult<T>>;
+}
+
+export interface CacheEntry<T> {
+  data: T;
+  fetchedAt: number;
+}
+
+const memory = new Map<string, CacheEntry<unknown>>();
+const inFlight = new Map<string, Promise<GitHubResult<unknown>>>();
+
+/** Cached entry for a key, from memory or (once per session) sessionStorage */
+export function readEntry<T>(key: string): CacheEntry<T> | null {
+  const cached = memory.get(key) as CacheEntry<T> | undefined;
+  if (cached) return cached;
+  if (typeof window === 'undefined') return null;
+
+  try {
+    const stored = window.sessionStorage.getItem(STORAGE_PREFIX + key);
+    if (!stored) return null;
+    const entry = JSON.parse(stored) as CacheEntry<T>;
+    memory.set(key, entry);
+    return entry;
+  } catch {
+    return null;
+  }
+}
+
+function writeEntry<T>(key: string, entry: CacheEntry<T>): void {
+  memory.set(key, entry);
+  try {
+    window.sessionStorage.setItem(STORAGE_PREFIX + key, JSON.stringify(entry));
+  } catch {
+    // Storage full or unavailable — the in-memory copy still works
+  }
+}
+
+/** Whether an entry can be served without revalidating */
+export function isFresh(entry: CacheEntry<unknown>): boolean {
+  return Date.now() - entry.fetchedAt < FRESH_FOR_MS;
+}
+
+/**
+ * Fetch a resource, sharing one request between concurrent
+ * callers. Successful results are cached; failures are not.
+ */
+export function revalidate<T>(resource: CachedResource<T>): Promise<GitHubResult<T>> {
+  const pending = inFlight.get(resource.key) as Promise<GitHubResult<T>> | undefined;
+  if (pending) return pending;
+
+  const request = resource.load().then((result) => {
+    if (result.ok) writeEntry(resource.key, { data: result.data, fetchedAt: Date.now() });
+    return result;
+  });
+  const tracked = request.finally(() => inFlight.delete(resource.key));
+  inFlight.set(resource.key, tracked);
+  return tracked;
+}
+
+/**
+ * Store data obtained elsewhere, e.g. rendered by the server,
+ * keeping its own fetch time. A newer cached copy (say, from a
+ * revalidation before this page was reloaded) is left alone.
+ */
+export function primeCache<T>(resource: CachedResource<T>, entry: CacheEntry<T>): void {
+  const cached = readEntry(resource.key);
+  if (cached && cached.fetchedAt >= entry.fetchedAt) return;
+  writeEntry(resource.key, entry);
+}
+
+/** Warm the cache for a resource unless a fresh copy is already there */
+export async function prefetch<T>(resource: CachedResource<T>): Promise<void> {
+  const cached = readEntry(resource.key);
+  if (cached && isFresh(cached)) return;
+  await revalidate(resource);
+}
@@ -0,0 +1,92 @@
+/**
+ * ═══════════════════════════════════════════════════
+ * Day Activity Provider (server-side)
+ * Lists the public commits, pull requests and issues
+ * authored on a single day, via GitHub's search API.
+ * Point GITHUB_API_URL at a local stub, or run with
+ * GITHUB_FIXTURES=true, to develop without hitting GitHub.
+ * ═══════════════════════════════════════════════════
+ */
+
+import type { DayActivity, DayActivityItem } from './githubApi';
+import { githubFetch } from './githubFetch';
+import { GITHUB_API_URL } from './githubUpstream';
+
+const GITHUB_USERNAME = 'suhanstha09';
+
+/** Search results listed per activity type */
+const PER_TYPE_LIMIT = 20;
+
+interface CommitSearchItem {
+  sha: string;
+  html_url: string;
+  commit: { message: string };
+  repository: { full_name: string };
+}
+
+interface IssueSearchItem {
+  title: string;
+  html_url: string;
+  repository_url: string;
+  pull_request?: unknown;
+}
+
+function githubHeaders(): HeadersInit {
+  const headers: Record<string, string> = {
+    Accept: 'application/vnd.github+json',
+    'User-Agent': 'Mozilla/5.0 (compatible; PortfolioBot/1.0)',
+  };
+  if (process.env.GITHUB_TOKEN) {
+    headers.Authorization = `bearer ${process.env.GITHUB_TOKEN}`;
+  }
+  return headers;
+}
+
+async function search<T>(kind: 'commits' | 'issues', query: string): Promise<T[]> {
+  const response = await githubFetch(
+    `${GITHUB_API_URL}/search/${kind}?q=${encodeURIComponent(query)}&per_page=${PER_TYPE_LIMIT}`,
+    { headers: githubHeaders(), next: { revalidate: 3600 } }
+  );
+  if (!response.ok) {
+    throw new Error(`GitHub search error (${kind}): ${response.status}`);
+  }
+  const data = await response.json();
+  return data.items || [];
+}
+
+/** "owner/name" from a REST repository URL */
+function repoFromUrl(repositoryUrl: string): string {
+  return repositoryUrl.split('/repos/')[1] ?? repositoryUrl;
+}
+
+export async function getDayActivity(date: string): Promise<DayActivity> {
+  const [commits, pullRequests, issues] = await Promise.all([
+    search<CommitSearchItem>('commits', `author:${GITHUB_USERNAME} committer-date:${date}`),
+    search<IssueSearchItem>('issues', `author:${GITHUB_USERNAME} type:pr created:${date}`),
+    search<IssueSearchItem>('issues', `author:${GITHUB_USERNAME} type:issue created:${date}`),
+  ]);
+
+  const items: DayActivityItem[] = [
+    ...commits.map((item) => ({
+      type: 'commit' as const,
+      // First line of the commit message only
+      title: item.commit.message.split('\n')[0],
+      repo: item.repository.full_name,
+      url: item.html_url,
+    })),
+    ...pullRequests.map((item) => ({
+      type: 'pull-request' as const,
+      title: item.title,
+      repo: repoFromUrl(item.repository_url),
+      url: item.html_url,
+    })),
+    ...issues.map((item) => ({
+      type: 'issue' as const,
+      title: item.title,
+      repo: repoFromUrl(item.repository_url),
+      url: item.html_url,
+    })),
+  ];
+
+  return { date, items };
+}
@@ -5,8 +5,14 @@
  * ═══════════════════════════════════════════════════
  */
 
-const GITHUB_USERNAME = 'suhanstha09';
-const GITHUB_API_BASE = 'https://api.github.com';
+import {
+  ROLLING_PERIOD,
+  getPeriodRange,
+  type ContributionPeriod,
+} from './contributionPeriod';
+import type { ContributionStats } from './contributionStats';
+import { DATA_AGE_HEADER } from './githubUpstream';
+import type { CacheEntry, CachedResource } from './dataCache';
 
 /** Pinned repo data shape (from our API route) */
 export interface PinnedRepo {
@@ -20,19 +26,16 @@ export interface PinnedRepo {
   url: string;
 }
 
-/** Repository data shape */
-export interface GitHubRepo {
-  id: number;
-  name: string;
-  description: string | null;
-  html_url: string;
-  language: string | null;
-  stargazers_count: number;
-  forks_count: number;
-  topics: string[];
-  updated_at: string;
-  created_at: string;
-  homepage: string | null;
+/**
+ * Whether data came straight from GitHub ("live") or is the
+ * server's last good copy served while GitHub is failing ("rerun")
+ */
+export type DataFreshness = 'live' | 'rerun';
+
+/** Pinned repos plus how fresh they are */
+export interface PinnedReposData {
+  repos: PinnedRepo[];
+  freshness: DataFreshness;
 }
 
 /** Contribution day data */
@@ -51,92 +54,227 @@ export interface ContributionWeek {
 export interface ContributionData {
   weeks: ContributionWeek[];
   totalContributions: number;
+  /** Streaks, best day and distributions computed by the API route */
+  stats: ContributionStats;
+  /** Period the calendar covers, with its inclusive date range */
+  period: ContributionPeriod;
+  from: string;
+  to: string;
+  freshness: DataFreshness;
 }
 
 /**
- * Fetch pinned repositories from our server-side API route,
- * which scrapes GitHub's profile page for pinned repos
- * (excluding netflix clone and dropbox clone).
+ * GitHub data the home page is server-rendered with, stamped
+ * with when the server got it from GitHub; null where the
+ * server couldn't. CRTMonitor seeds the client data cache
+ * with it so the channels open instantly.
  */
-export async function fetchPinnedRepos(): Promise<PinnedRepo[]> {
-  try {
-    const response = await fetch('/api/pinned-repos');
-    if (!response.ok) {
-      throw new Error(`Pinned repos API error: ${response.status}`);
-    }
-    const data = await response.json();
-    return data.repos || [];
-  } catch (error) {
-    console.error('Failed to fetch pinned repos:', error);
-    return [];
-  }
+export interface InitialChannelData {
+  pinnedRepos: CacheEntry<PinnedReposData> | null;
+  contributions: CacheEntry<ContributionData> | null;
+}
+
+/** Kind of public activity listed for a calendar day */
+export type DayActivityType = 'commit' | 'pull-request' | 'issue';
+
+/** One public contribution on a given day */
+export interface DayActivityItem {
+  type: DayActivityType;
+  title: string;
+  repo: string;
+  url: string;
+}
+
+/** Everything public that happened on one calendar day */
+export interface DayActivity {
+  date: string;
+  items: DayActivityItem[];
+}
+
+/** Why a call to one of our GitHub API routes failed */
+export type GitHubFetchErrorKind = 'network' | 'http' | 'invalid-response';
+
+export interface GitHubFetchError {
+  kind: GitHubFetchErrorKind;
+  /** HTTP status, for 'http' errors */
+  status?: number;
+  message: string;
 }
 
 /**
- * Fetch contribution data via our server-side API route,
- * which scrapes GitHub's contribution calendar for accurate data.
+ * Outcome of a client-side GitHub fetch. The fetchers never
+ * throw and never invent placeholder data — callers decide
+ * what a failure looks like on screen.
  */
-export async function fetchContributionData(): Promise<ContributionData> {
-  try {
-    const response = await fetch('/api/contributions');
+export type GitHubResult<T> =
+  | { ok: true; data: T }
+  | { ok: false; error: GitHubFetchError };
+
+/** The API routes mark cached fallbacks with an X-Data-Age header */
+function readFreshness(response: Response): DataFreshness {
+  return response.headers.has(DATA_AGE_HEADER) ? 'rerun' : 'live';
+}
+
+// ─── Response shape checks ───
+// The readers below check the JSON they're given and throw on
+// anything else, so fetchFromApi reports 'invalid-response'
+// instead of handing the channels data they'd trip over later.
 
-    if (!response.ok) {
-      throw new Error(`API error: ${response.status}`);
-    }
+type Guard<T> = (value: unknown) => value is T;
 
-    const data = await response.json();
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+const isString: Guard<string> = (value): value is string => typeof value === 'string';
+
+const isNumber: Guard<number> = (value): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+const isNullableString: Guard<string | null> = (value): value is string | null =>
+  value === null || typeof value === 'string';
+
+function isArrayOf<T>(value: unknown, isItem: Guard<T>): value is T[] {
+  return Array.isArray(value) && value.every(isItem);
+}
+
+/** `value` if it passes `guard`, otherwise an error naming the field */
+function expectShape<T>(value: unknown, guard: Guard<T>, field: string): T {
+  if (!guard(value)) throw new Error(`Unexpected shape for "${field}"`);
+  return value;
+}
+
+const isPinnedRepo: Guard<PinnedRepo> = (value): value is PinnedRepo =>
+  isRecord(value) &&
+  isString(value.owner) &&
+  isString(value.name) &&
+  isString(value.fullName) &&
+  isNullableString(value.description) &&
+  isNullableString(value.language) &&
+  isNumber(value.stars) &&
+  isNumber(value.forks) &&
+  isString(value.url);
+
+const isContributionDay: Guard<ContributionDay> = (value): value is ContributionDay =>
+  isRecord(value) && isString(value.date) && isNumber(value.count) && isNumber(value.level);
+
+const isContributionWeek: Guard<ContributionWeek> = (value): value is ContributionWeek =>
+  isRecord(value) && isArrayOf(value.days, isContributionDay);
+
+const isContributionStats: Guard<ContributionStats> = (value): value is ContributionStats =>
+  isRecord(value) &&
+  (value.currentStreak === null || isNumber(value.currentStreak)) &&
+  isNumber(value.longestStreak) &&
+  (value.bestDay === null ||
+    (isRecord(value.bestDay) && isString(value.bestDay.date) && isNumber(value.bestDay.count))) &&
+  isNumber(value.activeDays) &&
+  isNumber(value.averagePerActiveDay) &&
+  isArrayOf(value.weekdayTotals, isNumber) &&
+  value.weekdayTotals.length === 7 &&
+  isArrayOf(
+    value.monthlyTotals,
+    (month): month is { month: string; total: number } =>
+      isRecord(month) && isString(month.month) && isNumber(month.total)
+  );
+
+const DAY_ACTIVITY_TYPES: readonly unknown[] = ['commit', 'pull-request', 'issue'];
+
+const isDayActivityItem: Guard<DayActivityItem> = (value): value is DayActivityItem =>
+  isRecord(value) &&
+  DAY_ACTIVITY_TYPES.includes(value.type) &&
+  isString(value.title) &&
+  isString(value.repo) &&
+  isString(value.url);
+
+/** GET one of our API routes and map its JSON body into a result */
+async function fetchFromApi<T>(
+  url: string,
+  read: (body: Record<string, unknown>, response: Response) => T
+): Promise<GitHubResult<T>> {
+  let response: Response;
+  try {
+    response = await fetch(url);
+  } catch (error) {
+    console.error(`Request to ${url} failed:`, error);
+    return { ok: false, error: { kind: 'network', message: 'Network request failed' } };
+  }
+
+  if (!response.ok) {
     return {
-      weeks: data.weeks || [],
-      totalContributions: data.totalContributions || 0,
+      ok: false,
+      error: { kind: 'http', status: response.status, message: `API error: ${response.status}` },
     };
+  }
+
+  try {
+    const body: unknown = await response.json();
+    return { ok: true, data: read(expectShape(body, isRecord, 'body'), response) };
   } catch (error) {
-    console.error('Failed to fetch contribution data:', error);
-    return { weeks: generateEmptyCalendar(), totalContributions: 0 };
+    console.error(`Unreadable response from ${url}:`, error);
+    return { ok: false, error: { kind: 'invalid-response', message: 'Unreadable API response' } };
   }
 }
 
-/** Generate an empty calendar grid for the current year as fallback */
-function generateEmptyCalendar(): ContributionWeek[] {
-  const weeks: ContributionWeek[] = [];
-  const currentYear = new Date().getFullYear();
-  const startDate = new Date(currentYear, 0, 1);
-  startDate.setDate(startDate.getDate() - startDate.getDay());
-
-  for (let w = 0; w < 53; w++) {
-    const days: ContributionDay[] = [];
-    for (let d = 0; d < 7; d++) {
-      const currentDate = new Date(startDate);
-      currentDate.setDate(currentDate.getDate() + w * 7 + d);
-      days.push({
-        date: currentDate.toISOString().split('T')[0],
-        count: 0,
-        level: 0,
-      });
-    }
-    weeks.push({ days });
-  }
-  return weeks;
+/**
+ * Fetch pinned repositories from our server-side API route,
+ * which asks GitHub's GraphQL API (or scrapes the profile
+ * page without a token) for pinned repos
+ * (excluding netflix clone and dropbox clone).
+ */
+export function fetchPinnedRepos(): Promise<GitHubResult<PinnedReposData>> {
+  return fetchFromApi('/api/pinned-repos', (data, response) => ({
+    repos: expectShape(data.repos, (value) => isArrayOf(value, isPinnedRepo), 'repos'),
+    freshness: readFreshness(response),
+  }));
 }
 
 /**
- * Fetch user profile information
+ * Fetch contribution data via our server-side API route,
+ * which scrapes GitHub's contribution calendar for accurate data.
+ * Defaults to the rolling last 12 months; pass a year to step back.
  */
-export async function fetchGitHubProfile() {
-  try {
-    const response = await fetch(
-      `${GITHUB_API_BASE}/users/${GITHUB_USERNAME}`,
-      {
-        headers: { Accept: 'application/vnd.github.v3+json' },
-        next: { revalidate: 3600 },
-      }
-    );
-
-    if (!response.ok) throw new Error(`GitHub API error: ${response.status}`);
-    return await response.json();
-  } catch (error) {
-    console.error('Failed to fetch GitHub profile:', error);
-    return null;
-  }
+export function fetchContributionData(
+  period: ContributionPeriod = ROLLING_PERIOD
+): Promise<GitHubResult<ContributionData>> {
+  const { from, to } = getPeriodRange(period);
+  return fetchFromApi(`/api/contributions?year=${period}`, (data, response) => ({
+    weeks: expectShape(data.weeks, (value) => isArrayOf(value, isContributionWeek), 'weeks'),
+    totalContributions: expectShape(data.totalContributions, isNumber, 'totalContributions'),
+    stats: expectShape(data.stats, isContributionStats, 'stats'),
+    period,
+    from: data.from === undefined ? from : expectShape(data.from, isString, 'from'),
+    to: data.to === undefined ? to : expectShape(data.to, isString, 'to'),
+    freshness: readFreshness(response),
+  }));
+}
+
+/** Pinned repos through the client data cache (lib/dataCache) */
+export const pinnedReposResource: CachedResource<PinnedReposData> = {
+  key: 'pinned-repos',
+  load: fetchPinnedRepos,
+};
+
+/** One contribution period through the client data cache */
+export function contributionResource(
+  period: ContributionPeriod = ROLLING_PERIOD
+): CachedResource<ContributionData> {
+  return { key: `contributions:${period}`, load: () => fetchContributionData(period) };
+}
+
+/**
+ * Fetch one day's public activity (commits, PRs, issues)
+ * via our server-side API route.
+ */
+export function fetchDayActivity(date: string): Promise<GitHubResult<DayActivity>> {
+  return fetchFromApi(`/api/activity?date=${encodeURIComponent(date)}`, (data) => ({
+    date,
+    items: expectShape(data.items, (value) => isArrayOf(value, isDayActivityItem), 'items'),
+  }));
+}
+
+/** One day's activity through the client data cache */
+export function dayActivityResource(date: string): CachedResource<DayActivity> {
+  return { key: `activity:${date}`, load: () => fetchDayActivity(date) };
 }
 
 /** Language color mapping for repo cards */
@@ -0,0 +1,108 @@
+/**
+ * ═══════════════════════════════════════════════════
+ * GitHub Fetch (server-side)
+ * Single entry point for every upstream GitHub call.
+ * Normally a plain fetch; in fixture mode it answers
+ * from the recorded files in fixtures/github instead,
+ * so the Projects and Proof of Work channels run with
+ * realistic data and no network.
+ * ═══════════════════════════════════════════════════
+ */
+
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { GITHUB_API_URL, GITHUB_FIXTURE_MODE, GITHUB_WEB_URL } from './githubUpstream';
+import { toISODate } from './contributionPeriod';
+
+const FIXTURES_DIR = path.join(process.cwd(), 'fixtures', 'github');
+
+/** Fetch from GitHub, or from the recorded fixtures in fixture mode */
+export async function githubFetch(url: string, init?: RequestInit): Promise<Response> {
+  if (!GITHUB_FIXTURE_MODE) {
+    return fetch(url, init);
+  }
+  return fetchFixture(new URL(url), init);
+}
+
+async function readFixture(name: string): Promise<string | null> {
+  try {
+    return await readFile(path.join(FIXTURES_DIR, name), 'utf8');
+  } catch {
+    return null;
+  }
+}
+
+function fixtureResponse(body: string | null, contentType: string): Response {
+  if (body === null) {
+    return new Response('Not Found (no fixture)', { status: 404 });
+  }
+  return new Response(body, { status: 200, headers: { 'Content-Type': contentType } });
+}
+
+/** Map an upstream URL onto its recorded fixture */
+async function fetchFixture(url: URL, init?: RequestInit): Promise<Response> {
+  const isApi = url.href.startsWith(GITHUB_API_URL);
+  const isWeb = url.href.startsWith(GITHUB_WEB_URL);
+  const pathname = url.pathname.replace(/\/$/, '');
+
+  if (isApi) {
+    if (pathname === '/graphql') {
+      return fixtureResponse(await readFixture('graphql-pinned.json'), 'application/json');
+    }
+    const repo = pathname.match(/^\/repos\/[^/]+\/([^/]+)$/);
+    if (repo) {
+      return fixtureResponse(await readFixture(`repos/${repo[1]}.json`), 'application/json');
+    }
+    if (/^\/users\/[^/]+$/.test(pathname)) {
+      return fixtureResponse(await readFixture('user.json'), 'application/json');
+    }
+    if (pathname === '/search/commits') {
+      return fixtureResponse(await readFixture('search-commits.json'), 'application/json');
+    }
+    if (pathname === '/search/issues') {
+      const isPullRequest = url.searchParams.get('q')?.includes('type:pr');
+      const name = isPullRequest ? 'search-pull-requests.json' : 'search-issues.json';
+      return fixtureResponse(await readFixture(name), 'application/json');
+    }
+  }
+
+  if (isWeb) {
+    if (/^\/users\/[^/]+\/contributions$/.test(pathname)) {
+      const html = await readFixture('contributions.html');
+      return fixtureResponse(
+        html && shiftCalendar(html, url.searchParams.get('to')),
+        'text/html'
+      );
+    }
+    if (/^\/[^/]+$/.test(pathname)) {
+      return fixtureResponse(await readFixture('profile.html'), 'text/html');
+    }
+  }
+
+  console.warn(`No GitHub fixture for ${init?.method ?? 'GET'} ${url.href}`);
+  return fixtureResponse(null, 'text/plain');
+}
+
+/**
+ * The recorded calendar covers one fixed year. Slide its dates
+ * by whole weeks (so weekdays still line up) to end at the
+ * requested `to` date, so any period shows realistic activity.
+ */
+function shiftCalendar(html: string, to: string | null): string {
+  const dates = Array.from(html.matchAll(/data-date="(\d{4}-\d{2}-\d{2})"/g), (m) => m[1]);
+  if (!to || dates.length === 0) return html;
+
+  const recordedEnd = dates.reduce((latest, date) => (date > latest ? date : latest));
+  const dayMs = 24 * 60 * 60 * 1000;
+  const diffDays = Math.round(
+    (Date.parse(`${to}T00:00:00Z`) - Date.parse(`${recordedEnd}T00:00:00Z`)) / dayMs
+  );
+  const shiftMs = Math.round(diffDays / 7) * 7 * dayMs;
+  if (shiftMs === 0) return html;
+
+  return html.replace(
+    /data-date="(\d{4}-\d{2}-\d{2})"/g,
+    (_, date: string) =>
+      `data-date="${toISODate(new Date(Date.parse(`${date}T00:00:00Z`) + shiftMs))}"`
+  );
+}
@@ -0,0 +1,192 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import {
+  GitHubParseError,
+  parseContributionCalendar,
+  parseContributionTotal,
+  parsePinnedRepos,
+  type GitHubParseErrorCode,
+} from './githubParsers';
+
+/** Recorded github.com responses, as served in fixture mode */
+function fixture(name: string): string {
+  return readFileSync(path.join(__dirname, '..', 'fixtures', 'github', name), 'utf8');
+}
+
+function expectParseError(parse: () => unknown, code: GitHubParseErrorCode): void {
+  try {
+    parse();
+  } catch (error) {
+    expect(error).toBeInstanceOf(GitHubParseError);
+    expect((error as GitHubParseError).code).toBe(code);
+    return;
+  }
+  throw new Error(`Expected a GitHubParseError (${code})`);
+}
+
+/** A calendar fragment in today's markup: one cell, its tooltip, a heading */
+function calendar({ cell, tooltip, heading = '3 contributions in 2025' }: {
+  cell: string;
+  tooltip: string;
+  heading?: string;
+}): string {
+  return `<h2>${heading}</h2><table><tr>${cell}</tr></table>${tooltip}`;
+}
+
+describe('parseContributionTotal', () => {
+  it('reads the rolling-year heading from the fixture', () => {
+    expect(parseContributionTotal(fixture('contributions.html'))).toBe(811);
+  });
+
+  it('reads a calendar-year heading with a thousands separator', () => {
+    expect(parseContributionTotal('<h2>1,204 contributions in 2024</h2>')).toBe(1204);
+  });
+
+  it('reads a heading split across lines', () => {
+    expect(parseContributionTotal('<h2>\n  1\n  contribution\n    in the last year\n</h2>')).toBe(1);
+  });
+
+  it('throws instead of returning zero when the heading is missing', () => {
+    expectParseError(() => parseContributionTotal('<h2>Contribution activity</h2>'), 'total-missing');
+  });
+});
+
+describe('parseContributionCalendar', () => {
+  const from = '2024-10-19';
+  const to = '2025-10-18';
+
+  it('parses the fixture into whole Sunday–Saturday weeks', () => {
+    const { weeks, totalContributions } = parseContributionCalendar(
+      fixture('contributions.html'),
+      from,
+      to
+    );
+
+    expect(totalContributions).toBe(811);
+    expect(weeks[0].days[0].date).toBe('2024-10-13');
+    expect(weeks.at(-1)?.days.at(-1)?.date).toBe('2025-10-18');
+    expect(weeks.every((week) => week.days.length === 7)).toBe(true);
+  });
+
+  it('maps contribution-day-component tooltips onto their cells', () => {
+    const { weeks } = parseContributionCalendar(fixture('contributions.html'), from, to);
+    const days = weeks.flatMap((week) => week.days);
+
+    expect(days.find((day) => day.date === '2024-11-17')).toEqual({
+      date: '2024-11-17',
+      count: 2,
+      level: 1,
+    });
+    expect(days.find((day) => day.date === '2025-03-10')).toEqual({
+      date: '2025-03-10',
+      count: 1,
+      level: 1,
+    });
+    // Every tooltip count lands on a day, adding up to the heading
+    expect(days.reduce((sum, day) => sum + day.count, 0)).toBe(811);
+  });
+
+  it('reads cells whose attributes wrap across lines', () => {
+    const html = calendar({
+      cell: `<td tabindex="-1"
+        data-ix="3"
+        data-date="2025-01-08"
+        id="contribution-day-component-3-1"
+        data-level="2"
+        class="ContributionCalendar-day"></td>`,
+      tooltip: `<tool-tip
+        id="tooltip-3-1"
+        for="contribution-day-component-3-1"
+        class="sr-only">3
+        contributions on January 8th.</tool-tip>`,
+    });
+    const days = parseContributionCalendar(html, '2025-01-05', '2025-01-11').weeks[0].days;
+
+    expect(days[3]).toEqual({ date: '2025-01-08', count: 3, level: 2 });
+  });
+
+  it('does not depend on attribute order', () => {
+    const html = calendar({
+      cell: '<td data-level="4" id="contribution-day-component-3-1" data-date="2025-01-08"></td>',
+      tooltip:
+        '<tool-tip for="contribution-day-component-3-1" id="tooltip-3-1">1,024 contributions on January 8th.</tool-tip>',
+    });
+    const days = parseContributionCalendar(html, '2025-01-05', '2025-01-11').weeks[0].days;
+
+    expect(days[3]).toEqual({ date: '2025-01-08', count: 1024, level: 4 });
+  });
+
+  it('treats "No contributions" tooltips as zero', () => {
+    const html = calendar({
+      cell: '<td data-date="2025-01-08" id="contribution-day-component-3-1" data-level="0"></td>',
+      tooltip: '<tool-tip for="contribution-day-component-3-1">No contributions on January 8th.</tool-tip>',
+    });
+    const days = parseContributionCalendar(html, '2025-01-05', '2025-01-11').weeks[0].days;
+
+    expect(days[3].count).toBe(0);
+  });
+
+  it('throws when the calendar has no cells', () => {
+    expectParseError(
+      () => parseContributionCalendar('<h2>3 contributions in 2025</h2><table></table>', from, to),
+      'calendar-missing'
+    );
+  });
+
+  it('throws on a tooltip it cannot read', () => {
+    const html = calendar({
+      cell: '<td data-date="2025-01-08" id="contribution-day-component-3-1" data-level="1"></td>',
+      tooltip: '<tool-tip for="contribution-day-component-3-1">Loading…</tool-tip>',
+    });
+    expectParseError(
+      () => parseContributionCalendar(html, '2025-01-05', '2025-01-11'),
+      'tooltip-unreadable'
+    );
+  });
+
+  it('throws when the total heading is missing', () => {
+    const html = '<table><tr><td data-date="2025-01-08" data-level="1"></td></tr></table>';
+    expectParseError(() => parseContributionCalendar(html, from, to), 'total-missing');
+  });
+});
+
+describe('parsePinnedRepos', () => {
+  it('lists the fixture profile’s pins in order', () => {
+    expect(parsePinnedRepos(fixture('profile.html'))).toEqual([
+      { owner: 'suhanstha09', name: 'SuhanShrestha_protfolio' },
+      { owner: 'suhanstha09', name: 'quiz-arena' },
+      { owner: 'suhanstha09', name: 'college-site-cms' },
+      { owner: 'suhanstha09', name: 'django-inventory' },
+      { owner: 'suhanstha09', name: 'netflix-clone' },
+      { owner: 'suhanstha09', name: 'dotfiles' },
+    ]);
+  });
+
+  it('falls back to looser pinned-item-list-item markup', () => {
+    const html = `
+      <div class="js-pinned-items-reorder-container"><ol>
+        <li class="pinned-item-list-item public">
+          <a href="/octo/first">first</a>
+        </li>
+        <li class="pinned-item-list-item public">
+          <a class="Link" href="/octo/second">second</a>
+        </li>
+      </ol></div>`;
+
+    expect(parsePinnedRepos(html)).toEqual([
+      { owner: 'octo', name: 'first' },
+      { owner: 'octo', name: 'second' },
+    ]);
+  });
+
+  it('returns an empty list for a pinned section with no repos', () => {
+    expect(parsePinnedRepos('<div class="js-pinned-items-reorder-container"><ol></ol></div>')).toEqual(
+      []
+    );
+  });
+
+  it('throws when the profile has no pinned section', () => {
+    expectParseError(() => parsePinnedRepos('<main><h1>Popular repositories</h1></main>'), 'pinned-missing');
+  });
+});
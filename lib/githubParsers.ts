@@ -0,0 +1,176 @@
+/**
+ * ═══════════════════════════════════════════════════
+ * GitHub HTML Parsers
+ * Pure functions that turn github.com markup into data:
+ * the contribution calendar and the profile's pinned
+ * repo list. Markup they don't recognise raises a
+ * GitHubParseError instead of quietly yielding zeros.
+ * ═══════════════════════════════════════════════════
+ */
+
+import type { ContributionDay, ContributionWeek } from './githubApi';
+import { toISODate } from './contributionPeriod';
+
+/** What part of the markup could not be understood */
+export type GitHubParseErrorCode =
+  | 'calendar-missing'
+  | 'total-missing'
+  | 'tooltip-unreadable'
+  | 'pinned-missing';
+
+export class GitHubParseError extends Error {
+  readonly code: GitHubParseErrorCode;
+
+  constructor(code: GitHubParseErrorCode, message: string) {
+    super(message);
+    this.name = 'GitHubParseError';
+    this.code = code;
+  }
+}
+
+/** Calendar grid and headline total, before any analytics */
+export interface ContributionCalendar {
+  weeks: ContributionWeek[];
+  totalContributions: number;
+}
+
+/** A pinned repo as linked from the profile page */
+export interface PinnedRepoRef {
+  owner: string;
+  name: string;
+}
+
+/**
+ * Attributes of one start tag, keyed by name. Works whatever
+ * the attribute order and however the tag wraps across lines.
+ */
+function readAttributes(tag: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of tag.matchAll(/([\w:-]+)\s*=\s*"([^"]*)"/g)) {
+    attributes[match[1]] = match[2];
+  }
+  return attributes;
+}
+
+/** Collapse runs of whitespace, including newlines, to single spaces */
+function squish(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Parse the headline total, e.g. "158 contributions in 2026"
+ * or "1,204 contributions in the last year".
+ */
+export function parseContributionTotal(html: string): number {
+  const match = html.match(/([\d,]+)\s+contributions?\s+in\s+(?:\d{4}|the\s+last\s+year)/);
+  if (!match) {
+    throw new GitHubParseError('total-missing', 'Contribution total heading not found');
+  }
+  return parseInt(match[1].replace(/,/g, ''), 10);
+}
+
+/**
+ * Parse the contribution calendar for [from, to] into a
+ * Sunday–Saturday week grid spanning the whole period.
+ * Levels come from each cell's data-level; exact counts from
+ * the <tool-tip> that points at the cell's id.
+ */
+export function parseContributionCalendar(
+  html: string,
+  from: string,
+  to: string
+): ContributionCalendar {
+  const totalContributions = parseContributionTotal(html);
+
+  // Calendar cells: <td ... data-date="YYYY-MM-DD" id="contribution-day-component-X-Y" data-level="N">
+  const levelByDate: Record<string, number> = {};
+  const dateById: Record<string, string> = {};
+  for (const [tag] of html.matchAll(/<td\b[^>]*>/g)) {
+    const attributes = readAttributes(tag);
+    const date = attributes['data-date'];
+    if (!date || !/^\d{4}-\d{2}-\d{2}$/.test(date)) continue;
+
+    levelByDate[date] = parseInt(attributes['data-level'] ?? '0', 10) || 0;
+    if (attributes.id) dateById[attributes.id] = date;
+  }
+
+  if (Object.keys(levelByDate).length === 0) {
+    throw new GitHubParseError('calendar-missing', 'No contribution calendar cells found');
+  }
+
+  // Tooltips: <tool-tip for="contribution-day-component-X-Y">3 contributions on …</tool-tip>
+  const countByDate: Record<string, number> = {};
+  for (const [, tag, body] of html.matchAll(/<tool-tip\b([^>]*)>([\s\S]*?)<\/tool-tip>/g)) {
+    const date = dateById[readAttributes(tag).for];
+    if (!date) continue;
+
+    const text = squish(body);
+    const count = text.match(/^(\d[\d,]*)\s+contributions?\b/);
+    if (count) {
+      countByDate[date] = parseInt(count[1].replace(/,/g, ''), 10);
+    } else if (/^No contributions\b/.test(text)) {
+      countByDate[date] = 0;
+    } else {
+      throw new GitHubParseError('tooltip-unreadable', `Unreadable tooltip for ${date}: "${text}"`);
+    }
+  }
+
+  // Build weekly grid (Sun-Sat) spanning the whole period
+  const cursor = new Date(`${from}T00:00:00Z`);
+  cursor.setUTCDate(cursor.getUTCDate() - cursor.getUTCDay());
+  const endDate = new Date(`${to}T00:00:00Z`);
+
+  const weeks: ContributionWeek[] = [];
+  while (cursor <= endDate) {
+    const days: ContributionDay[] = [];
+    for (let d = 0; d < 7; d++) {
+      const date = toISODate(cursor);
+      days.push({
+        date,
+        count: countByDate[date] ?? 0,
+        level: levelByDate[date] ?? 0,
+      });
+      cursor.setUTCDate(cursor.getUTCDate() + 1);
+    }
+    weeks.push({ days });
+  }
+
+  return { weeks, totalContributions };
+}
+
+/**
+ * Parse the pinned repo links from a profile page, in pin
+ * order. An empty list means the pinned section was found
+ * but holds no repos; markup with no pinned section at all
+ * raises a GitHubParseError.
+ */
+export function parsePinnedRepos(html: string): PinnedRepoRef[] {
+  const pinnedSection = html.match(/class="[^"]*\bjs-pinned-items-reorder-container\b[^"]*"[\s\S]*?<\/ol>/);
+  const searchIn = pinnedSection ? pinnedSection[0] : html;
+  const found: PinnedRepoRef[] = [];
+
+  const add = (owner: string, name: string) => {
+    if (!found.some((r) => r.owner === owner && r.name === name)) {
+      found.push({ owner, name });
+    }
+  };
+
+  // Each pinned item: <div class="… pinned-item-list-item-content …"> … <a href="/owner/repo"> … <span class="repo">
+  const itemPattern =
+    /class="[^"]*pinned-item-list-item-content[^"]*"[\s\S]*?<a\b[^>]*?\bhref="\/([^"/]+)\/([^"/]+)"[^>]*>[\s\S]*?<span\b[^>]*\bclass="repo"[^>]*>/g;
+  for (const match of searchIn.matchAll(itemPattern)) {
+    add(match[1].trim(), match[2].trim());
+  }
+
+  // Looser markup: any repo link after a pinned-item-list-item class
+  if (found.length === 0) {
+    for (const match of searchIn.matchAll(/pinned-item-list-item[\s\S]*?href="\/([^"/]+)\/([^"/]+)"/g)) {
+      add(match[1].trim(), match[2].trim());
+    }
+  }
+
+  if (found.length === 0 && !pinnedSection) {
+    throw new GitHubParseError('pinned-missing', 'No pinned repos section found in profile page');
+  }
+  return found;
+}
@@ -0,0 +1,26 @@
+/**
+ * ═══════════════════════════════════════════════════
+ * GitHub Upstream Configuration
+ * Where GitHub data comes from. Both bases can be
+ * pointed at a local stub, and GITHUB_FIXTURES=true
+ * switches the server to the recorded responses in
+ * fixtures/github (see lib/githubFetch) for fully
+ * offline development.
+ * ═══════════════════════════════════════════════════
+ */
+
+/** Base for github.com pages (profile, contribution calendar) */
+export const GITHUB_WEB_URL = (process.env.GITHUB_WEB_URL || 'https://github.com').replace(/\/$/, '');
+
+/** Base for the REST and GraphQL APIs */
+export const GITHUB_API_URL = (process.env.GITHUB_API_URL || 'https://api.github.com').replace(/\/$/, '');
+
+/**
+ * Header carrying the age (seconds) of data served from the
+ * server's last-good cache. Shared with the client, which must
+ * not import lib/upstreamCache itself.
+ */
+export const DATA_AGE_HEADER = 'X-Data-Age';
+
+/** Serve recorded fixtures instead of calling GitHub */
+export const GITHUB_FIXTURE_MODE = process.env.GITHUB_FIXTURES === 'true';
@@ -0,0 +1,20 @@
+/**
+ * ═══════════════════════════════════════════════════
+ * Haptics
+ * A short vibration for the knobs' detents, on devices
+ * that support the Vibration API (most Android phones).
+ * Everywhere else it does nothing.
+ * ═══════════════════════════════════════════════════
+ */
+
+/** Milliseconds of vibration per detent — just enough to feel */
+const DETENT_PULSE = 8;
+
+export function hapticTick(): void {
+  if (typeof navigator === 'undefined' || typeof navigator.vibrate !== 'function') return;
+  try {
+    navigator.vibrate(DETENT_PULSE);
+  } catch {
+    // Blocked (e.g. no user gesture yet) — the click still plays
+  }
+}
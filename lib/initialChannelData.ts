@@ -0,0 +1,69 @@
+/**
+ * ═══════════════════════════════════════════════════
+ * Initial Channel Data (server-side)
+ * Loads the GitHub data the home page is rendered with,
+ * in the same shapes the client fetchers produce, along
+ * with when it was fetched from GitHub. A source that
+ * fails, or takes longer than SERVER_RENDER_TIMEOUT_MS,
+ * comes back null so the page still renders promptly;
+ * the channel then fetches it on its own.
+ * ═══════════════════════════════════════════════════
+ */
+
+import { ROLLING_PERIOD } from './contributionPeriod';
+import { getCachedContributions } from './contributionsProvider';
+import type { DataFreshness, InitialChannelData } from './githubApi';
+import { getCachedPinnedRepos } from './pinnedReposProvider';
+import type { CachedResult } from './upstreamCache';
+
+/** How long the page waits on each source before rendering without it */
+const SERVER_RENDER_TIMEOUT_MS = 2000;
+
+function freshnessOf(result: CachedResult<unknown>): DataFreshness {
+  return result.stale ? 'rerun' : 'live';
+}
+
+/** When the result's data actually came from GitHub (a rerun is older) */
+function fetchedAtOf(result: CachedResult<unknown>): number {
+  return Date.now() - result.age * 1000;
+}
+
+/**
+ * `load`'s value, or null if it fails or misses the deadline. A slow
+ * load keeps going in the background and still fills the server cache.
+ */
+function withinDeadline<T>(load: Promise<T>, label: string): Promise<T | null> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const deadline = new Promise<null>((resolve) => {
+    timer = setTimeout(() => {
+      console.error(`Server render: ${label} timed out`);
+      resolve(null);
+    }, SERVER_RENDER_TIMEOUT_MS);
+  });
+  const loaded = load.catch((error) => {
+    console.error(`Server render: ${label} unavailable:`, error);
+    return null;
+  });
+  return Promise.race([loaded, deadline]).finally(() => clearTimeout(timer));
+}
+
+export async function getInitialChannelData(): Promise<InitialChannelData> {
+  const [pinnedRepos, contributions] = await Promise.all([
+    withinDeadline(
+      getCachedPinnedRepos().then((result) => ({
+        data: { repos: result.data.repos, freshness: freshnessOf(result) },
+        fetchedAt: fetchedAtOf(result),
+      })),
+      'pinned repos'
+    ),
+    withinDeadline(
+      getCachedContributions(ROLLING_PERIOD).then((result) => ({
+        data: { ...result.data, freshness: freshnessOf(result) },
+        fetchedAt: fetchedAtOf(result),
+      })),
+      'contributions'
+    ),
+  ]);
+
+  return { pinnedRepos, contributions };
+}
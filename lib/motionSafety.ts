@@ -0,0 +1,53 @@
+/**
+ * ═══════════════════════════════════════════════════
+ * Motion Safety
+ * Reduced-motion / photosensitivity-safe mode. The
+ * visitor's OS setting (prefers-reduced-motion) is the
+ * default, and the bezel's MOTION button overrides it.
+ * CRTMonitor resolves the preference into a framer
+ * MotionConfig, so components read the result with
+ * framer's useReducedMotionConfig(): flashes become
+ * fades, flicker and typewriters stop, boot shortens.
+ * ═══════════════════════════════════════════════════
+ */
+
+/** Follow the OS setting, or force reduced / full motion */
+export type MotionPreference = 'system' | 'reduce' | 'full';
+
+/** Cycle order of the bezel's MOTION button */
+export const MOTION_PREFERENCES: MotionPreference[] = ['system', 'reduce', 'full'];
+
+/** Short bezel labels */
+export const MOTION_PREFERENCE_LABELS: Record<MotionPreference, string> = {
+  system: 'AUTO',
+  reduce: 'CALM',
+  full: 'FULL',
+};
+
+/** Spoken descriptions for the button and the live region */
+export const MOTION_PREFERENCE_DESCRIPTIONS: Record<MotionPreference, string> = {
+  system: 'Motion follows your system setting',
+  reduce: 'Reduced motion',
+  full: 'Full motion',
+};
+
+export function nextMotionPreference(preference: MotionPreference): MotionPreference {
+  const index = MOTION_PREFERENCES.indexOf(preference);
+  return MOTION_PREFERENCES[(index + 1) % MOTION_PREFERENCES.length];
+}
+
+/** Whether motion should be reduced, given the OS setting (null before it's known) */
+export function resolveReducedMotion(
+  preference: MotionPreference,
+  systemPrefersReduced: boolean | null
+): boolean {
+  if (preference === 'system') return systemPrefersReduced === true;
+  return preference === 'reduce';
+}
+
+/** framer-motion MotionConfig value for a preference */
+export function toMotionConfig(preference: MotionPreference): 'user' | 'always' | 'never' {
+  if (preference === 'reduce') return 'always';
+  if (preference === 'full') return 'never';
+  return 'user';
+}
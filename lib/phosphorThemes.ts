@@ -0,0 +1,112 @@
+/**
+ * ═══════════════════════════════════════════════════
+ * Phosphor Themes
+ * The colours a CRT can glow in. Each theme carries
+ * every token the TV paints with — accent and dim text,
+ * the glow used in text shadows, the contribution
+ * heatmap scale and the screen background — so nothing
+ * else hardcodes hex values. CRTMonitor publishes the
+ * active theme through lib/usePhosphorTheme and mirrors
+ * it into CSS variables for globals.css.
+ * ═══════════════════════════════════════════════════
+ */
+
+import type { CSSProperties } from 'react';
+
+export type PhosphorThemeId = 'amber' | 'green' | 'white' | 'blue' | 'high-contrast';
+
+export interface PhosphorTheme {
+  id: PhosphorThemeId;
+  /** Short name for the bezel and announcements */
+  label: string;
+  accent: string;
+  dim: string;
+  /** Highlights: focus rings, links */
+  bright: string;
+  /** Glow colour as an "r, g, b" triplet, for rgba() shadows */
+  glow: string;
+  /** Heatmap colours for contribution levels 0–4 */
+  heatmap: readonly [string, string, string, string, string];
+  /** Unlit screen colour */
+  background: string;
+}
+
+export const phosphorThemes: Record<PhosphorThemeId, PhosphorTheme> = {
+  amber: {
+    id: 'amber',
+    label: 'Amber',
+    accent: '#ff9f43',
+    dim: '#cc7722',
+    bright: '#ffb366',
+    glow: '255, 159, 67',
+    heatmap: ['#161b22', '#ff9f4333', '#ff9f4366', '#ff9f4399', '#ff9f43'],
+    background: '#0a0a0a',
+  },
+  green: {
+    id: 'green',
+    label: 'Green P1',
+    accent: '#33ff33',
+    dim: '#22aa22',
+    bright: '#66ff66',
+    glow: '51, 255, 51',
+    heatmap: ['#161b22', '#0e4429', '#006d32', '#26a641', '#39d353'],
+    background: '#080a08',
+  },
+  white: {
+    id: 'white',
+    label: 'White P4',
+    accent: '#e8f0ff',
+    dim: '#8a94a6',
+    bright: '#ffffff',
+    glow: '232, 240, 255',
+    heatmap: ['#161b22', '#3a3f47', '#6b717b', '#a9afb8', '#e8f0ff'],
+    background: '#0b0c0e',
+  },
+  blue: {
+    id: 'blue',
+    label: 'Blue',
+    accent: '#4fc3ff',
+    dim: '#2a7fb0',
+    bright: '#8ad8ff',
+    glow: '79, 195, 255',
+    heatmap: ['#161b22', '#0c3450', '#14598a', '#2a8fd0', '#4fc3ff'],
+    background: '#070b10',
+  },
+  'high-contrast': {
+    id: 'high-contrast',
+    label: 'High contrast',
+    accent: '#ffff00',
+    dim: '#ffffff',
+    bright: '#ffff66',
+    glow: '255, 255, 0',
+    heatmap: ['#2a2a2a', '#5c5c00', '#a3a300', '#e0e000', '#ffff00'],
+    background: '#000000',
+  },
+};
+
+/** Cycle order of the phosphor button and the power long-press */
+export const PHOSPHOR_THEME_IDS = Object.keys(phosphorThemes) as PhosphorThemeId[];
+
+export const DEFAULT_PHOSPHOR_THEME: PhosphorThemeId = 'amber';
+
+export function isPhosphorThemeId(value: unknown): value is PhosphorThemeId {
+  return PHOSPHOR_THEME_IDS.includes(value as PhosphorThemeId);
+}
+
+/** The theme after (or, with step -1, before) `id`, wrapping around */
+export function nextPhosphorTheme(id: PhosphorThemeId, step: 1 | -1 = 1): PhosphorThemeId {
+  const count = PHOSPHOR_THEME_IDS.length;
+  const index = PHOSPHOR_THEME_IDS.indexOf(id);
+  return PHOSPHOR_THEME_IDS[(index + step + count) % count];
+}
+
+/** CSS variables globals.css reads (--crt-accent, --crt-glow, …) */
+export function phosphorCssVariables(theme: PhosphorTheme): CSSProperties {
+  return {
+    '--crt-accent': theme.accent,
+    '--crt-dim': theme.dim,
+    '--crt-bright': theme.bright,
+    '--crt-glow': theme.glow,
+    '--crt-background': theme.background,
+  } as CSSProperties;
+}
@@ -0,0 +1,209 @@
+/**
+ * ═══════════════════════════════════════════════════
+ * Pinned Repos Provider (server-side)
+ * Resolves the profile's pinned repositories through
+ * GitHub's GraphQL `pinnedItems` query when a token is
+ * configured, and falls back to scraping the profile
+ * page otherwise. Both sources return the same
+ * PinnedRepo shape and report which one answered.
+ * ═══════════════════════════════════════════════════
+ */
+
+import type { PinnedRepo } from './githubApi';
+import { githubFetch } from './githubFetch';
+import { parsePinnedRepos } from './githubParsers';
+import { GITHUB_API_URL, GITHUB_WEB_URL } from './githubUpstream';
+import { withLastGood, type CachedResult } from './upstreamCache';
+
+const GITHUB_USERNAME = 'suhanstha09';
+const USER_AGENT = 'Mozilla/5.0 (compatible; PortfolioBot/1.0)';
+
+/** Excluded pinned repos (case-insensitive match on repo name) */
+const EXCLUDED = ['netflixclone', 'suhan-dropbox-clone', 'netflix-clone', 'dropbox-clone'];
+
+/** Which upstream produced the pinned repo list */
+export type PinnedReposSource = 'graphql' | 'scraper';
+
+export interface PinnedReposResult {
+  repos: PinnedRepo[];
+  source: PinnedReposSource;
+}
+
+const PINNED_ITEMS_QUERY = `
+  query PinnedRepos($login: String!) {
+    user(login: $login) {
+      pinnedItems(first: 6, types: REPOSITORY) {
+        nodes {
+          ... on Repository {
+            name
+            nameWithOwner
+            description
+            url
+            stargazerCount
+            forkCount
+            owner { login }
+            primaryLanguage { name }
+          }
+        }
+      }
+    }
+  }
+`;
+
+interface PinnedItemNode {
+  name: string;
+  nameWithOwner: string;
+  description: string | null;
+  url: string;
+  stargazerCount: number;
+  forkCount: number;
+  owner: { login: string };
+  primaryLanguage: { name: string } | null;
+}
+
+interface PinnedItemsResponse {
+  data?: { user: { pinnedItems: { nodes: PinnedItemNode[] } } | null };
+  errors?: { message: string }[];
+}
+
+function isExcluded(name: string): boolean {
+  return EXCLUDED.includes(name.toLowerCase());
+}
+
+/**
+ * Pinned repos in a single GraphQL round trip — no markup
+ * parsing and no per-repo REST calls.
+ */
+export async function fetchPinnedReposFromGraphQL(token: string): Promise<PinnedRepo[]> {
+  const response = await githubFetch(`${GITHUB_API_URL}/graphql`, {
+    method: 'POST',
+    headers: {
+      Authorization: `bearer ${token}`,
+      'Content-Type': 'application/json',
+      'User-Agent': USER_AGENT,
+    },
+    body: JSON.stringify({ query: PINNED_ITEMS_QUERY, variables: { login: GITHUB_USERNAME } }),
+    next: { revalidate: 3600 },
+  });
+
+  if (!response.ok) {
+    throw new Error(`GitHub GraphQL error: ${response.status}`);
+  }
+
+  const payload: PinnedItemsResponse = await response.json();
+  if (payload.errors?.length) {
+    throw new Error(`GitHub GraphQL error: ${payload.errors[0].message}`);
+  }
+  if (!payload.data?.user) {
+    throw new Error(`GitHub GraphQL error: user ${GITHUB_USERNAME} not found`);
+  }
+
+  return payload.data.user.pinnedItems.nodes
+    .filter((node) => node && !isExcluded(node.name))
+    .map((node) => ({
+      owner: node.owner.login,
+      name: node.name,
+      fullName: node.nameWithOwner,
+      description: node.description || null,
+      language: node.primaryLanguage?.name || null,
+      stars: node.stargazerCount || 0,
+      forks: node.forkCount || 0,
+      url: node.url,
+    }));
+}
+
+/**
+ * Legacy path: scrape the profile page for pinned repo
+ * links, then fetch details for each via the REST API.
+ * A repo whose lookup fails is left out, but an empty
+ * result throws — when every lookup fails (say, rate
+ * limited) the last good copy is the better answer.
+ */
+export async function fetchPinnedReposFromScraper(): Promise<PinnedRepo[]> {
+  // Fetch the GitHub profile page
+  const response = await githubFetch(`${GITHUB_WEB_URL}/${GITHUB_USERNAME}`, {
+    headers: {
+      'User-Agent': USER_AGENT,
+      Accept: 'text/html',
+    },
+    next: { revalidate: 3600 },
+  });
+
+  if (!response.ok) {
+    throw new Error(`GitHub profile fetch error: ${response.status}`);
+  }
+
+  const foundRepos = parsePinnedRepos(await response.text());
+
+  // Filter out excluded repos
+  const filteredRepos = foundRepos.filter((r) => !isExcluded(r.name));
+
+  // Fetch details for each pinned repo via GitHub REST API
+  const repoDetails = await Promise.all(
+    filteredRepos.map(async ({ owner, name }) => {
+      try {
+        const repoRes = await githubFetch(
+          `${GITHUB_API_URL}/repos/${owner}/${name}`,
+          {
+            headers: {
+              Accept: 'application/vnd.github.v3+json',
+              'User-Agent': USER_AGENT,
+            },
+            next: { revalidate: 3600 },
+          }
+        );
+        if (!repoRes.ok) return null;
+        const data = await repoRes.json();
+        return {
+          owner: data.owner?.login || owner,
+          name: data.name || name,
+          fullName: data.full_name || `${owner}/${name}`,
+          description: data.description || null,
+          language: data.language || null,
+          stars: data.stargazers_count || 0,
+          forks: data.forks_count || 0,
+          url: data.html_url || `${GITHUB_WEB_URL}/${owner}/${name}`,
+        } as PinnedRepo;
+      } catch {
+        return null;
+      }
+    })
+  );
+
+  const repos = repoDetails.filter(Boolean) as PinnedRepo[];
+  if (repos.length === 0) {
+    throw new Error(
+      filteredRepos.length === 0
+        ? 'GitHub profile scrape found no pinned repos'
+        : `GitHub repo lookups failed for all ${filteredRepos.length} pinned repos`
+    );
+  }
+  return repos;
+}
+
+/**
+ * Pinned repos from the best available source: GraphQL when
+ * GITHUB_TOKEN is set (falling back to the scraper if that
+ * call fails), the scraper otherwise.
+ */
+export async function getPinnedRepos(): Promise<PinnedReposResult> {
+  const token = process.env.GITHUB_TOKEN;
+
+  if (token) {
+    try {
+      return { repos: await fetchPinnedReposFromGraphQL(token), source: 'graphql' };
+    } catch (error) {
+      console.error('GraphQL pinned repos failed, falling back to scraper:', error);
+    }
+  }
+
+  return { repos: await fetchPinnedReposFromScraper(), source: 'scraper' };
+}
+
+/**
+ * Pinned repos, falling back to the last good copy (see
+ * lib/upstreamCache) when GitHub fails.
+ */
+export function getCachedPinnedRepos(): Promise<CachedResult<PinnedReposResult>> {
+  return withLastGood('pinned-repos', getPinnedRepos);
+}
@@ -0,0 +1,274 @@
+/**
+ * ═══════════════════════════════════════════════════
+ * Screen Snapshot
+ * Rasterizes a live element into a canvas, so the WebGL
+ * tube (lib/crtShader) can bend and bleed the actual
+ * picture instead of drawing over it.
+ *
+ * The element is cloned with every computed style
+ * inlined — only what differs from the browser's
+ * defaults, to keep the markup small — then drawn as an
+ * SVG <foreignObject> image. Scroll offsets, ::before /
+ * ::after, canvases and the page's (Latin) web fonts are
+ * carried over. Animations are frozen at their current
+ * frame; the caller re-snapshots when the DOM changes.
+ * External images don't load inside an SVG image, so
+ * they come out blank.
+ * ═══════════════════════════════════════════════════
+ */
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+
+/** Computed style values by property name */
+type StyleValues = Map<string, string>;
+
+interface CloneContext {
+  /** Rules for cloned ::before / ::after, keyed by generated class */
+  pseudoRules: string[];
+  nextId: number;
+}
+
+// ─── Browser defaults ───
+// A blank same-origin iframe holds one bare element per tag, so
+// its computed style is the user-agent default with no page CSS.
+
+let sandbox: HTMLIFrameElement | null = null;
+const defaultStyles = new Map<string, StyleValues>();
+
+function sandboxDocument(): Document | null {
+  if (!sandbox) {
+    sandbox = document.createElement('iframe');
+    sandbox.setAttribute('aria-hidden', 'true');
+    sandbox.tabIndex = -1;
+    sandbox.style.cssText =
+      'position:fixed;left:-9999px;top:0;width:0;height:0;border:0;visibility:hidden;';
+    document.body.appendChild(sandbox);
+  }
+  return sandbox.contentDocument;
+}
+
+function readValues(style: CSSStyleDeclaration): StyleValues {
+  const values: StyleValues = new Map();
+  for (let i = 0; i < style.length; i++) {
+    const name = style.item(i);
+    values.set(name, style.getPropertyValue(name));
+  }
+  return values;
+}
+
+function defaultStyleOf(element: Element): StyleValues {
+  const key = `${element.namespaceURI}:${element.localName}`;
+  const cached = defaultStyles.get(key);
+  if (cached) return cached;
+
+  const doc = sandboxDocument();
+  const view = doc?.defaultView;
+  if (!doc?.body || !view) return new Map();
+
+  // SVG elements only get their defaults inside an <svg>
+  const bare = doc.createElementNS(element.namespaceURI, element.localName);
+  const holder = element.namespaceURI === SVG_NS ? doc.createElementNS(SVG_NS, 'svg') : bare;
+  if (holder !== bare) holder.appendChild(bare);
+  doc.body.appendChild(holder);
+  const values = readValues(view.getComputedStyle(bare));
+  holder.remove();
+
+  defaultStyles.set(key, values);
+  return values;
+}
+
+// ─── Cloning ───
+
+/** Declarations for `values`, skipping browser defaults the clone would get anyway */
+function declarations(values: StyleValues, defaults: StyleValues, parent: StyleValues | null) {
+  let css = '';
+  values.forEach((value, name) => {
+    const fallback = defaults.get(name);
+    // A default still has to be written when the parent differs,
+    // or an inherited property would pick up the parent's value
+    if (value === fallback && (!parent || parent.get(name) === fallback)) return;
+    css += `${name}:${value};`;
+  });
+  // The snapshot is one frame: nothing may start animating inside it
+  return `${css}animation:none;transition:none;`;
+}
+
+function clonePseudo(element: Element, clone: Element, context: CloneContext): void {
+  (['::before', '::after'] as const).forEach((pseudo) => {
+    const style = window.getComputedStyle(element, pseudo);
+    const content = style.getPropertyValue('content');
+    if (!content || content === 'none' || content === 'normal') return;
+
+    const className = `snapshot-${context.nextId++}`;
+    clone.classList.add(className);
+    let css = '';
+    readValues(style).forEach((value, name) => {
+      css += `${name}:${value};`;
+    });
+    context.pseudoRules.push(`.${className}${pseudo}{${css}animation:none;transition:none;}`);
+  });
+}
+
+/** A canvas can't be serialized — swap in an image of its pixels */
+function canvasImage(canvas: HTMLCanvasElement): Element {
+  const image = document.createElement('img');
+  try {
+    image.src = canvas.toDataURL();
+  } catch {
+    // A tainted canvas stays blank
+  }
+  return image;
+}
+
+function cloneNode(
+  node: Node,
+  parent: StyleValues | null,
+  context: CloneContext
+): Node | null {
+  if (node.nodeType === Node.TEXT_NODE) return node.cloneNode(false);
+  if (!(node instanceof HTMLElement || node instanceof SVGElement)) return null;
+  if (node instanceof HTMLScriptElement || node instanceof HTMLStyleElement) return null;
+
+  const values = readValues(window.getComputedStyle(node));
+  const clone = node instanceof HTMLCanvasElement ? canvasImage(node) : node.cloneNode(false);
+  if (!(clone instanceof HTMLElement || clone instanceof SVGElement)) return null;
+  clone.setAttribute('style', declarations(values, defaultStyleOf(node), parent));
+  clonePseudo(node, clone, context);
+
+  const children: [Element, HTMLElement | SVGElement][] = [];
+  node.childNodes.forEach((child) => {
+    const childClone = cloneNode(child, values, context);
+    if (!childClone) return;
+    clone.appendChild(childClone);
+    if (!(child instanceof Element)) return;
+    if (childClone instanceof HTMLElement || childClone instanceof SVGElement) {
+      children.push([child, childClone]);
+    }
+  });
+
+  // The clone renders scrolled to the top: shift the children
+  // up by the scroll offset instead, and hide the scrollbars
+  if (node.scrollTop || node.scrollLeft) {
+    const shift = `translate(${-node.scrollLeft}px, ${-node.scrollTop}px)`;
+    children.forEach(([child, childClone]) => {
+      const transform = window.getComputedStyle(child).transform;
+      childClone.style.transform = transform === 'none' ? shift : `${shift} ${transform}`;
+    });
+    clone.style.overflow = 'hidden';
+  }
+  return clone;
+}
+
+// ─── Fonts ───
+// The SVG image can't see the page's fonts, so the @font-face
+// rules are inlined once per page load, their files as data URLs.
+
+let fontCss: Promise<string> | null = null;
+
+function toDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+async function inlineFontFace(rule: CSSFontFaceRule, base: string): Promise<string> {
+  const urls = Array.from(rule.cssText.matchAll(/url\(["']?([^"')]+)["']?\)/g), (m) => m[1]);
+  let css = rule.cssText;
+  for (const url of urls) {
+    if (url.startsWith('data:')) continue;
+    const response = await fetch(new URL(url, base));
+    if (!response.ok) throw new Error(`Font ${url}: ${response.status}`);
+    css = css.split(url).join(await toDataUrl(await response.blob()));
+  }
+  return css;
+}
+
+async function collectFontFaces(): Promise<string> {
+  const faces: Promise<string>[] = [];
+  Array.from(document.styleSheets).forEach((sheet) => {
+    let rules: CSSRuleList;
+    try {
+      rules = sheet.cssRules;
+    } catch {
+      return; // Cross-origin stylesheet
+    }
+    Array.from(rules).forEach((rule) => {
+      if (!(rule instanceof CSSFontFaceRule)) return;
+      // The Latin subset only — the others would just bloat every snapshot
+      const range = rule.style.getPropertyValue('unicode-range');
+      if (range && !/U\+0+-/i.test(range)) return;
+      faces.push(inlineFontFace(rule, sheet.href ?? document.baseURI).catch(() => ''));
+    });
+  });
+  return (await Promise.all(faces)).join('\n');
+}
+
+function embeddedFonts(): Promise<string> {
+  fontCss ??= collectFontFaces();
+  return fontCss;
+}
+
+// ─── Drawing ───
+
+/** First solid background behind the element, so the snapshot is opaque */
+function backdropColor(element: Element): string {
+  for (let node: Element | null = element; node; node = node.parentElement) {
+    const color = window.getComputedStyle(node).backgroundColor;
+    if (color && color !== 'transparent' && !/^rgba\(.*,\s*0\)$/.test(color)) return color;
+  }
+  return '#000';
+}
+
+function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Snapshot image failed to load'));
+    image.src = src;
+  });
+}
+
+/**
+ * The element as it looks right now, drawn `scale` canvas
+ * pixels per CSS pixel. Rejects if the browser can't draw it.
+ */
+export async function snapshotElement(
+  element: HTMLElement,
+  scale: number
+): Promise<HTMLCanvasElement> {
+  const width = element.clientWidth;
+  const height = element.clientHeight;
+  const context: CloneContext = { pseudoRules: [], nextId: 0 };
+
+  const clone = cloneNode(element, null, context);
+  if (!(clone instanceof HTMLElement)) throw new Error('Nothing to snapshot');
+  // Pin the root where the snapshot expects it
+  clone.style.margin = '0';
+  clone.style.width = `${width}px`;
+  clone.style.height = `${height}px`;
+  clone.style.transform = 'none';
+
+  const style = document.createElement('style');
+  style.textContent = `${await embeddedFonts()}\n${context.pseudoRules.join('\n')}`;
+  clone.insertBefore(style, clone.firstChild);
+
+  const markup = new XMLSerializer().serializeToString(clone);
+  const svg =
+    `<svg xmlns="${SVG_NS}" width="${width * scale}" height="${height * scale}" ` +
+    `viewBox="0 0 ${width} ${height}"><foreignObject x="0" y="0" width="100%" height="100%">` +
+    `${markup}</foreignObject></svg>`;
+  const image = await loadImage(`data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width * scale));
+  canvas.height = Math.max(1, Math.round(height * scale));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('No 2D context for the snapshot');
+  ctx.fillStyle = backdropColor(element);
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+  return canvas;
+}
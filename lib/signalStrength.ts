@@ -0,0 +1,64 @@
+/**
+ * ═══════════════════════════════════════════════════
+ * Signal Strength
+ * How clean the picture is, from 0 (snow) to 1 (clear),
+ * as a framer MotionValue so StaticOverlay and the
+ * channel's ghosting follow it every frame without
+ * re-rendering the TV. Tuning and booting drop it to
+ * zero; once the set is on it climbs back — or settles
+ * at LOST_SIGNAL while a feed shows its NO SIGNAL card,
+ * which reports in through useSignalLoss. While fine
+ * tuning, it tracks the dial's `tunedSignal` directly.
+ * ═══════════════════════════════════════════════════
+ */
+
+import { createContext, useContext, useEffect } from 'react';
+import { animate, useMotionValue, type MotionValue } from 'framer-motion';
+import type { TVPowerState } from './tvPower';
+
+/** Picture quality while a channel's data is unavailable */
+const LOST_SIGNAL = 0.85;
+
+/** Receives +1 when a NO SIGNAL card appears and -1 when it goes */
+export const SignalLossContext = createContext<(change: 1 | -1) => void>(() => {});
+
+/** Report a lost feed for as long as the calling component is mounted */
+export function useSignalLoss(): void {
+  const report = useContext(SignalLossContext);
+  useEffect(() => {
+    report(1);
+    return () => report(-1);
+  }, [report]);
+}
+
+export function useSignalStrength(
+  power: TVPowerState,
+  signalLost: boolean,
+  reducedMotion: boolean,
+  tunedSignal: number | null = null
+): MotionValue<number> {
+  const signal = useMotionValue(1);
+
+  useEffect(() => {
+    if (power.status === 'booting' || power.status === 'switching') {
+      signal.set(0);
+      return;
+    }
+    if (power.status !== 'on') {
+      signal.set(1);
+      return;
+    }
+    const target = signalLost ? LOST_SIGNAL : 1;
+    if (tunedSignal !== null) {
+      signal.set(Math.min(tunedSignal, target));
+      return;
+    }
+    const controls = animate(signal, target, {
+      duration: reducedMotion ? 0.2 : 0.7,
+      ease: 'easeOut',
+    });
+    return () => controls.stop();
+  }, [power.status, power.epoch, signalLost, reducedMotion, tunedSignal, signal]);
+
+  return signal;
+}
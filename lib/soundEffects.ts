@@ -21,11 +21,19 @@ function getAudioContext(): AudioContext {
   return audioContext;
 }
 
+/** Sound effects switch from the TV menu (music is separate) */
+let effectsEnabled = true;
+
+export function setSoundEffectsEnabled(enabled: boolean): void {
+  effectsEnabled = enabled;
+}
+
 /**
  * Power ON sound — Low frequency sweep upward
  * Simulates the CRT warming up with a rising tone
  */
 export function playPowerOn(): void {
+  if (!effectsEnabled) return;
   try {
     const ctx = getAudioContext();
     const oscillator = ctx.createOscillator();
@@ -53,6 +61,7 @@ export function playPowerOn(): void {
  * Simulates the CRT shutting down with a falling pitch
  */
 export function playPowerOff(): void {
+  if (!effectsEnabled) return;
   try {
     const ctx = getAudioContext();
     const oscillator = ctx.createOscillator();
@@ -80,6 +89,7 @@ export function playPowerOff(): void {
  * Classic TV channel switch click sound
  */
 export function playChannelBeep(): void {
+  if (!effectsEnabled) return;
   try {
     const ctx = getAudioContext();
     const oscillator = ctx.createOscillator();
@@ -101,14 +111,33 @@ export function playChannelBeep(): void {
   }
 }
 
+/** Where the dial is while fine tuning, for frequency-aware sounds */
+export interface TuningSound {
+  /** Position across the band, 0 (bottom) – 1 (top), from lib/tuning */
+  bandPosition: number;
+  /** 0 (snow) – 1 (clear) */
+  signalStrength: number;
+}
+
+/** Pitch that tracks the dial, low at the bottom of the band rising to the top */
+function bandPitch(bandPosition: number, low: number, high: number): number {
+  const position = Math.min(1, Math.max(0, bandPosition));
+  return low * Math.pow(high / low, position);
+}
+
 /**
  * Static/white noise burst (300ms) — Played during channel transitions
- * Creates a brief burst of static noise like an analog TV
+ * Creates a brief burst of static noise like an analog TV.
+ * While fine tuning, a shorter burst is band-passed around the
+ * dial's frequency and fades out as the station comes in.
  */
-export function playStaticNoise(): void {
+export function playStaticNoise(tuning?: TuningSound): void {
+  if (!effectsEnabled) return;
+  if (tuning && tuning.signalStrength >= 1) return;
   try {
     const ctx = getAudioContext();
-    const bufferSize = ctx.sampleRate * 0.3; // 300ms of noise
+    const duration = tuning ? 0.15 : 0.3;
+    const bufferSize = ctx.sampleRate * duration;
     const buffer = ctx.createBuffer(1, bufferSize, ctx.sampleRate);
     const data = buffer.getChannelData(0);
 
@@ -121,14 +150,24 @@ export function playStaticNoise(): void {
     const gainNode = ctx.createGain();
 
     source.buffer = buffer;
-    gainNode.gain.setValueAtTime(0.4, ctx.currentTime);
-    gainNode.gain.exponentialRampToValueAtTime(0.01, ctx.currentTime + 0.3);
-
-    source.connect(gainNode);
+    const level = tuning ? 0.4 * Math.max(0.05, 1 - tuning.signalStrength) : 0.4;
+    gainNode.gain.setValueAtTime(level, ctx.currentTime);
+    gainNode.gain.exponentialRampToValueAtTime(0.01, ctx.currentTime + duration);
+
+    if (tuning) {
+      const filter = ctx.createBiquadFilter();
+      filter.type = 'bandpass';
+      filter.frequency.setValueAtTime(bandPitch(tuning.bandPosition, 600, 4000), ctx.currentTime);
+      filter.Q.setValueAtTime(0.8, ctx.currentTime);
+      source.connect(filter);
+      filter.connect(gainNode);
+    } else {
+      source.connect(gainNode);
+    }
     gainNode.connect(ctx.destination);
 
     source.start(ctx.currentTime);
-    source.stop(ctx.currentTime + 0.3);
+    source.stop(ctx.currentTime + duration);
   } catch {
     // Silently fail
   }
@@ -136,19 +175,23 @@ export function playStaticNoise(): void {
 
 /**
  * Dial click — Very short percussive click
- * Simulates the haptic feel of a rotary dial detent
+ * Simulates the haptic feel of a rotary dial detent. Given the
+ * dial's band position (fine tuning), the click is a quieter
+ * tick whose pitch climbs across the band.
  */
-export function playDialClick(): void {
+export function playDialClick(bandPosition?: number): void {
+  if (!effectsEnabled) return;
   try {
     const ctx = getAudioContext();
     const oscillator = ctx.createOscillator();
     const gainNode = ctx.createGain();
+    const pitch = bandPosition === undefined ? 1200 : bandPitch(bandPosition, 800, 2400);
 
     oscillator.type = 'sine';
-    oscillator.frequency.setValueAtTime(1200, ctx.currentTime);
-    oscillator.frequency.exponentialRampToValueAtTime(200, ctx.currentTime + 0.05);
+    oscillator.frequency.setValueAtTime(pitch, ctx.currentTime);
+    oscillator.frequency.exponentialRampToValueAtTime(pitch / 6, ctx.currentTime + 0.05);
 
-    gainNode.gain.setValueAtTime(0.1, ctx.currentTime);
+    gainNode.gain.setValueAtTime(bandPosition === undefined ? 0.1 : 0.05, ctx.currentTime);
     gainNode.gain.exponentialRampToValueAtTime(0.001, ctx.currentTime + 0.05);
 
     oscillator.connect(gainNode);
@@ -0,0 +1,80 @@
+/**
+ * ═══════════════════════════════════════════════════
+ * Static Noise
+ * Procedural analog snow for StaticOverlay's canvas.
+ * `signalStrength` runs from 0 (nothing but snow) to 1
+ * (clean picture): the snow thins out as it rises, so
+ * the channel shows through, and the rolling bars of a
+ * drifting vertical hold fade with it. The canvas is
+ * drawn at a fraction of the screen's size and scaled
+ * up, which is both cheaper and closer to real grain.
+ * ═══════════════════════════════════════════════════
+ */
+
+/** Canvas pixels per screen pixel */
+export const STATIC_RESOLUTION = 1 / 3;
+
+/** Small xorshift PRNG — Math.random is slow in a per-pixel loop */
+function createRandom(seed: number): () => number {
+  let state = seed | 0 || 1;
+  return () => {
+    state ^= state << 13;
+    state ^= state >>> 17;
+    state ^= state << 5;
+    return (state >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Draw one frame of static. With `animated` off the grain
+ * is the same every frame and the bars stay put, so a
+ * redraw only changes how much snow there is.
+ */
+export function drawStatic(
+  ctx: CanvasRenderingContext2D,
+  signalStrength: number,
+  time: number,
+  animated: boolean
+): void {
+  const { width, height } = ctx.canvas;
+  if (width === 0 || height === 0) return;
+
+  const noise = 1 - Math.min(1, Math.max(0, signalStrength));
+  if (noise === 0) {
+    ctx.clearRect(0, 0, width, height);
+    return;
+  }
+
+  const random = createRandom(animated ? Math.floor(time * 1000) : 1);
+  const image = ctx.createImageData(width, height);
+  const pixels = image.data;
+  // Snow covers the picture completely only near zero signal
+  const coverage = Math.pow(noise, 0.7) * 255;
+  const barPhase = animated ? time * 0.6 : 0.3;
+
+  for (let y = 0; y < height; y++) {
+    // Rolling bars: broad bright bands drifting down the screen
+    const band = Math.sin((y / height + barPhase) * Math.PI * 4);
+    const rowGain = 1 + Math.max(0, band) * 0.35 * noise;
+
+    for (let x = 0; x < width; x++) {
+      const value = Math.min(255, random() * 255 * rowGain);
+      const i = (y * width + x) * 4;
+      pixels[i] = value;
+      pixels[i + 1] = value;
+      pixels[i + 2] = value;
+      pixels[i + 3] = coverage;
+    }
+  }
+  ctx.putImageData(image, 0, 0);
+}
+
+/**
+ * Ghosting for a weak signal: a faint offset echo of the
+ * picture, as a CSS filter for the channel's wrapper.
+ */
+export function ghostFilter(signalStrength: number): string {
+  const noise = 1 - Math.min(1, Math.max(0, signalStrength));
+  if (noise < 0.02) return 'none';
+  return `drop-shadow(${(noise * 10).toFixed(1)}px 0 0 rgba(var(--crt-glow), ${(noise * 0.45).toFixed(2)}))`;
+}
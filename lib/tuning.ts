@@ -0,0 +1,137 @@
+/**
+ * ═══════════════════════════════════════════════════
+ * Fine Tuning
+ * The dial as a continuous band instead of eight
+ * detents. Frequency is measured in channels — channel
+ * n sits exactly at n, and the band wraps after the
+ * last one — so tuneTo() can say which channel is
+ * nearest and how strongly it comes in. Between the
+ * channels sit a few hidden stations with a much
+ * narrower capture, only found by tuning slowly.
+ * ═══════════════════════════════════════════════════
+ */
+
+import { channels } from './channelData';
+
+export interface HiddenStation {
+  id: string;
+  /** Position on the band, between two channels */
+  frequency: number;
+  callSign: string;
+  title: string;
+  lines: string[];
+}
+
+export const hiddenStations: HiddenStation[] = [
+  {
+    id: 'numbers',
+    frequency: 2.62,
+    callSign: 'ECHO-7',
+    title: 'Numbers Station',
+    lines: [
+      '7 3 1 — 9 9 4 — 2 6 0',
+      '5 5 8 — 1 0 3 — 7 7 2',
+      'Repeat. 7 3 1 — 9 9 4 — 2 6 0',
+      'End of message.',
+    ],
+  },
+  {
+    id: 'pirate',
+    frequency: 5.41,
+    callSign: 'KRT-FM',
+    title: 'Pirate Broadcast',
+    lines: [
+      'You found the frequency between the frequencies.',
+      'Everything on this set was built by hand — even the static.',
+      "Now tune back. There's a portfolio to watch.",
+    ],
+  },
+  {
+    id: 'sign-off',
+    frequency: channels.length + 0.5,
+    callSign: 'SIGN OFF',
+    title: 'End of Broadcast Day',
+    lines: [
+      'This station has concluded its broadcast day.',
+      'The anthem would play here.',
+      'Thanks for turning the dial all the way round.',
+    ],
+  },
+];
+
+/** How far either side of a channel its picture reaches */
+const CHANNEL_CAPTURE = 0.45;
+/** Hidden stations are faint and only come in when tuned closely */
+const HIDDEN_CAPTURE = 0.12;
+/** Signal at which the set locks onto what it's tuned to */
+export const LOCK_THRESHOLD = 0.85;
+
+export interface TuningState {
+  /** Frequency wrapped onto the band */
+  frequency: number;
+  /** The channel whose picture is showing (or bleeding through) */
+  nearestChannel: number;
+  /** A hidden station, when one is stronger than the channel */
+  hiddenStation: HiddenStation | null;
+  /** 0 (snow) – 1 (clear) */
+  signalStrength: number;
+  /** Whether the signal is strong enough to lock on */
+  locked: boolean;
+}
+
+/** Wrap a frequency onto the band [0.5, total + 0.5) */
+export function wrapFrequency(frequency: number, totalChannels = channels.length): number {
+  const offset = (frequency - 0.5) % totalChannels;
+  return (offset < 0 ? offset + totalChannels : offset) + 0.5;
+}
+
+/** Distance between two points on the band, going the short way round */
+function bandDistance(a: number, b: number, totalChannels: number): number {
+  const distance = Math.abs(a - b) % totalChannels;
+  return Math.min(distance, totalChannels - distance);
+}
+
+function captureStrength(distance: number, capture: number): number {
+  return Math.max(0, 1 - distance / capture);
+}
+
+export function tuneTo(frequency: number, totalChannels = channels.length): TuningState {
+  const wrapped = wrapFrequency(frequency, totalChannels);
+  const nearestChannel = ((Math.round(wrapped) - 1) % totalChannels) + 1;
+  const channelSignal = captureStrength(
+    bandDistance(wrapped, nearestChannel, totalChannels),
+    CHANNEL_CAPTURE
+  );
+
+  let hiddenStation: HiddenStation | null = null;
+  let signalStrength = channelSignal;
+  for (const station of hiddenStations) {
+    const strength = captureStrength(
+      bandDistance(wrapped, station.frequency, totalChannels),
+      HIDDEN_CAPTURE
+    );
+    if (strength > signalStrength) {
+      hiddenStation = station;
+      signalStrength = strength;
+    }
+  }
+
+  return {
+    frequency: wrapped,
+    nearestChannel,
+    hiddenStation,
+    signalStrength,
+    locked: signalStrength >= LOCK_THRESHOLD,
+  };
+}
+
+/** Where a frequency sits across the band, 0 (bottom) – 1 (top) */
+export function bandPosition(frequency: number, totalChannels = channels.length): number {
+  return (wrapFrequency(frequency, totalChannels) - 0.5) / totalChannels;
+}
+
+/** Dial readout for a frequency, on the old VHF channel plan */
+export function formatFrequency(frequency: number, totalChannels = channels.length): string {
+  const megahertz = 55.25 + (wrapFrequency(frequency, totalChannels) - 1) * 6;
+  return `${megahertz.toFixed(2)} MHz`;
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import {
+  initialTVPowerState,
+  tvPowerReducer,
+  type TVPowerEvent,
+  type TVPowerState,
+} from './tvPower';
+
+/** The state after dispatching `events` in order from power-off */
+function run(...events: TVPowerEvent[]): TVPowerState {
+  return events.reduce(tvPowerReducer, initialTVPowerState);
+}
+
+describe('tvPowerReducer', () => {
+  it('starts switched off', () => {
+    expect(initialTVPowerState).toEqual({ status: 'off', epoch: 0 });
+  });
+
+  it('boots to on through the boot sequence', () => {
+    expect(run('POWER_PRESSED').status).toBe('booting');
+    expect(run('POWER_PRESSED', 'BOOT_COMPLETE')).toEqual({ status: 'on', epoch: 2 });
+  });
+
+  it('switches channels and settles back to on', () => {
+    const switching = run('POWER_PRESSED', 'BOOT_COMPLETE', 'SWITCH_STARTED');
+    expect(switching.status).toBe('switching');
+    expect(tvPowerReducer(switching, 'SWITCH_COMPLETE').status).toBe('on');
+  });
+
+  it('restarts the static when switching again mid-switch', () => {
+    const switching = run('POWER_PRESSED', 'BOOT_COMPLETE', 'SWITCH_STARTED');
+    const again = tvPowerReducer(switching, 'SWITCH_STARTED');
+    expect(again.status).toBe('switching');
+    expect(again.epoch).toBe(switching.epoch + 1);
+  });
+
+  it('powers off through the shutdown from booting, on and switching', () => {
+    const booting = run('POWER_PRESSED');
+    const on = tvPowerReducer(booting, 'BOOT_COMPLETE');
+    const switching = tvPowerReducer(on, 'SWITCH_STARTED');
+    [booting, on, switching].forEach((state) => {
+      const shuttingDown = tvPowerReducer(state, 'POWER_PRESSED');
+      expect(shuttingDown.status).toBe('shutting-down');
+      expect(tvPowerReducer(shuttingDown, 'SHUTDOWN_COMPLETE').status).toBe('off');
+    });
+  });
+
+  it('boots again when power is pressed during the shutdown', () => {
+    const shuttingDown = run('POWER_PRESSED', 'BOOT_COMPLETE', 'POWER_PRESSED');
+    expect(tvPowerReducer(shuttingDown, 'POWER_PRESSED').status).toBe('booting');
+  });
+
+  it('restores power straight to on, skipping the boot', () => {
+    expect(run('POWER_RESTORED')).toEqual({ status: 'on', epoch: 1 });
+  });
+
+  it('ignores events that do not apply, keeping the same state', () => {
+    const on = run('POWER_PRESSED', 'BOOT_COMPLETE');
+    const shuttingDown = tvPowerReducer(on, 'POWER_PRESSED');
+    const cases: [TVPowerState, TVPowerEvent][] = [
+      [initialTVPowerState, 'BOOT_COMPLETE'],
+      [initialTVPowerState, 'SWITCH_STARTED'],
+      [run('POWER_PRESSED'), 'POWER_RESTORED'],
+      [on, 'POWER_RESTORED'],
+      [on, 'SWITCH_COMPLETE'],
+      // A late completion can't resurrect a set that is shutting down
+      [shuttingDown, 'BOOT_COMPLETE'],
+      [shuttingDown, 'SWITCH_COMPLETE'],
+    ];
+    cases.forEach(([state, event]) => {
+      expect(tvPowerReducer(state, event)).toBe(state);
+    });
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * ═══════════════════════════════════════════════════
+ * TV Power State Machine
+ * The off → booting → on ⇄ switching → shutting-down
+ * lifecycle as a typed transition table. Timed phases
+ * (boot, static burst, shutdown) complete through a
+ * timer owned by useTVPower, which is cleared whenever
+ * the state moves on — so rapid power toggling can never
+ * leave a stale timeout firing into the wrong phase.
+ * ═══════════════════════════════════════════════════
+ */
+
+import { useEffect, useReducer } from 'react';
+
+export type TVPowerStatus = 'off' | 'booting' | 'on' | 'switching' | 'shutting-down';
+
+export type TVPowerEvent =
+  | 'POWER_PRESSED'
+  | 'POWER_RESTORED'
+  | 'BOOT_COMPLETE'
+  | 'SWITCH_STARTED'
+  | 'SWITCH_COMPLETE'
+  | 'SHUTDOWN_COMPLETE';
+
+export interface TVPowerState {
+  status: TVPowerStatus;
+  /** Bumped on every transition so re-entered phases restart their timer */
+  epoch: number;
+}
+
+/**
+ * Transition table — events missing from a state's row are
+ * ignored, which keeps e.g. a late BOOT_COMPLETE from
+ * resurrecting a set that is already shutting down.
+ */
+export const tvPowerTransitions: Record<
+  TVPowerStatus,
+  Partial<Record<TVPowerEvent, TVPowerStatus>>
+> = {
+  off: {
+    POWER_PRESSED: 'booting',
+    // Quick start for returning visitors — no boot sequence
+    POWER_RESTORED: 'on',
+  },
+  booting: {
+    POWER_PRESSED: 'shutting-down',
+    BOOT_COMPLETE: 'on',
+  },
+  on: {
+    POWER_PRESSED: 'shutting-down',
+    SWITCH_STARTED: 'switching',
+  },
+  switching: {
+    POWER_PRESSED: 'shutting-down',
+    SWITCH_STARTED: 'switching',
+    SWITCH_COMPLETE: 'on',
+  },
+  'shutting-down': {
+    POWER_PRESSED: 'booting',
+    SHUTDOWN_COMPLETE: 'off',
+  },
+};
+
+export type TVPowerDurations = Partial<
+  Record<TVPowerStatus, { duration: number; completes: TVPowerEvent }>
+>;
+
+/** How long each timed phase lasts before its completion event fires (ms) */
+export const tvPowerDurations: TVPowerDurations = {
+  booting: { duration: 2500, completes: 'BOOT_COMPLETE' },
+  switching: { duration: 300, completes: 'SWITCH_COMPLETE' },
+  'shutting-down': { duration: 700, completes: 'SHUTDOWN_COMPLETE' },
+};
+
+/** Shorter phases for reduced motion — a quick fade instead of the full boot */
+export const reducedMotionTVPowerDurations: TVPowerDurations = {
+  booting: { duration: 600, completes: 'BOOT_COMPLETE' },
+  switching: { duration: 250, completes: 'SWITCH_COMPLETE' },
+  'shutting-down': { duration: 300, completes: 'SHUTDOWN_COMPLETE' },
+};
+
+export const initialTVPowerState: TVPowerState = { status: 'off', epoch: 0 };
+
+/** Next status for an event, or null when the event doesn't apply */
+export function nextTVPowerStatus(
+  status: TVPowerStatus,
+  event: TVPowerEvent
+): TVPowerStatus | null {
+  return tvPowerTransitions[status][event] ?? null;
+}
+
+export function tvPowerReducer(state: TVPowerState, event: TVPowerEvent): TVPowerState {
+  const next = nextTVPowerStatus(state.status, event);
+  if (!next) return state;
+  return { status: next, epoch: state.epoch + 1 };
+}
+
+/**
+ * Power state hook — dispatch events, and timed phases
+ * complete on their own after `durations`.
+ */
+export function useTVPower(durations: TVPowerDurations = tvPowerDurations) {
+  const [state, dispatch] = useReducer(tvPowerReducer, initialTVPowerState);
+
+  useEffect(() => {
+    const timed = durations[state.status];
+    if (!timed) return;
+    const timer = setTimeout(() => dispatch(timed.completes), timed.duration);
+    return () => clearTimeout(timer);
+  }, [durations, state.status, state.epoch]);
+
+  return [state, dispatch] as const;
+}
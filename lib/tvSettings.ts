@@ -0,0 +1,160 @@
+/**
+ * ═══════════════════════════════════════════════════
+ * TV Settings
+ * Picture and sound adjustments behind the bezel's
+ * MENU button. Levels are whole percentages stepped by
+ * the volume buttons; the OSD menu (components/TVMenu)
+ * lists them in `tvMenuItems` order. tvSettingsCssVariables
+ * turns them into the variables the .crt-picture,
+ * .crt-scanlines, .crt-glass and .crt-vignette layers
+ * read in globals.css. Curvature, mask, bloom and grain
+ * shape the WebGL tube only (lib/crtShader).
+ * ═══════════════════════════════════════════════════
+ */
+
+import type { CSSProperties } from 'react';
+
+export interface TVSettings {
+  /** Percent, 50–150 */
+  brightness: number;
+  /** Percent, 50–150 */
+  contrast: number;
+  /** Layer strengths, percent 0–100 */
+  scanlines: number;
+  glass: number;
+  vignette: number;
+  flicker: boolean;
+  /** WebGL tube instead of the CSS layers, where WebGL is available */
+  shader: boolean;
+  /** The WebGL tube's character, percent 0–100 */
+  curvature: number;
+  mask: number;
+  bloom: number;
+  grain: number;
+  soundEffects: boolean;
+}
+
+export const defaultTVSettings: TVSettings = {
+  brightness: 100,
+  contrast: 100,
+  scanlines: 100,
+  glass: 100,
+  vignette: 100,
+  flicker: true,
+  shader: true,
+  curvature: 40,
+  mask: 30,
+  bloom: 60,
+  grain: 40,
+  soundEffects: true,
+};
+
+type LevelSetting =
+  | 'brightness'
+  | 'contrast'
+  | 'scanlines'
+  | 'glass'
+  | 'vignette'
+  | 'curvature'
+  | 'mask'
+  | 'bloom'
+  | 'grain';
+type ToggleSetting = 'flicker' | 'shader' | 'soundEffects';
+
+/** Range and step of each level setting */
+const LEVELS: Record<LevelSetting, { min: number; max: number; step: number }> = {
+  brightness: { min: 50, max: 150, step: 10 },
+  contrast: { min: 50, max: 150, step: 10 },
+  scanlines: { min: 0, max: 100, step: 10 },
+  glass: { min: 0, max: 100, step: 10 },
+  vignette: { min: 0, max: 100, step: 10 },
+  curvature: { min: 0, max: 100, step: 10 },
+  mask: { min: 0, max: 100, step: 10 },
+  bloom: { min: 0, max: 100, step: 10 },
+  grain: { min: 0, max: 100, step: 10 },
+};
+
+/** OSD rows; 'theme' is the phosphor theme, which CRTMonitor owns */
+export type TVMenuItemId = LevelSetting | ToggleSetting | 'theme';
+
+export interface TVMenuItem {
+  id: TVMenuItemId;
+  label: string;
+}
+
+export const tvMenuItems: TVMenuItem[] = [
+  { id: 'brightness', label: 'Brightness' },
+  { id: 'contrast', label: 'Contrast' },
+  { id: 'scanlines', label: 'Scanlines' },
+  { id: 'glass', label: 'Glass' },
+  { id: 'vignette', label: 'Vignette' },
+  { id: 'flicker', label: 'Flicker' },
+  { id: 'shader', label: 'CRT Shader' },
+  { id: 'curvature', label: 'Curvature' },
+  { id: 'mask', label: 'Mask' },
+  { id: 'bloom', label: 'Bloom' },
+  { id: 'grain', label: 'Grain' },
+  { id: 'theme', label: 'Colour' },
+  { id: 'soundEffects', label: 'Sound FX' },
+];
+
+export function isLevelSetting(id: TVMenuItemId): id is LevelSetting {
+  return id in LEVELS;
+}
+
+/** Step a setting up (1) or down (-1); toggles flip either way */
+export function adjustTVSetting(
+  settings: TVSettings,
+  id: Exclude<TVMenuItemId, 'theme'>,
+  direction: 1 | -1
+): TVSettings {
+  if (isLevelSetting(id)) {
+    const { min, max, step } = LEVELS[id];
+    const value = Math.min(max, Math.max(min, settings[id] + direction * step));
+    return { ...settings, [id]: value };
+  }
+  return { ...settings, [id]: !settings[id] };
+}
+
+/** Level as a 0–1 fraction of its range, for the OSD bar */
+export function tvSettingLevel(settings: TVSettings, id: LevelSetting): number {
+  const { min, max } = LEVELS[id];
+  return (settings[id] - min) / (max - min);
+}
+
+/** Readout for the OSD and announcements: "110%", "On", "Off" */
+export function describeTVSetting(
+  settings: TVSettings,
+  id: Exclude<TVMenuItemId, 'theme'>
+): string {
+  if (isLevelSetting(id)) return `${settings[id]}%`;
+  return settings[id] ? 'On' : 'Off';
+}
+
+/** Settings from storage, each field checked against its range */
+export function sanitizeTVSettings(raw: unknown): TVSettings {
+  const stored = (typeof raw === 'object' && raw !== null ? raw : {}) as Record<string, unknown>;
+  const settings = { ...defaultTVSettings };
+
+  (Object.keys(LEVELS) as LevelSetting[]).forEach((id) => {
+    const value = stored[id];
+    const { min, max } = LEVELS[id];
+    if (typeof value === 'number' && value >= min && value <= max) settings[id] = value;
+  });
+  (['flicker', 'shader', 'soundEffects'] as const).forEach((id) => {
+    const value = stored[id];
+    if (typeof value === 'boolean') settings[id] = value;
+  });
+  return settings;
+}
+
+/** CSS variables globals.css reads for the picture and overlay layers */
+export function tvSettingsCssVariables(settings: TVSettings): CSSProperties {
+  return {
+    '--crt-brightness': settings.brightness / 100,
+    '--crt-contrast': settings.contrast / 100,
+    '--crt-scanline-strength': settings.scanlines / 100,
+    '--crt-glass-strength': settings.glass / 100,
+    '--crt-vignette-strength': settings.vignette / 100,
+  } as CSSProperties;
+}
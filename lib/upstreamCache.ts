@@ -0,0 +1,70 @@
+/**
+ * ═══════════════════════════════════════════════════
+ * Upstream Cache (server-side)
+ * Keeps the last good response of every GitHub call in
+ * memory. When GitHub fails, the API routes answer from
+ * here instead of blanking the channel, and flag the
+ * data as a rerun through the X-Data-Age header.
+ * ═══════════════════════════════════════════════════
+ */
+
+import { DATA_AGE_HEADER } from './githubUpstream';
+
+/** Upper bound on cached keys — per-day activity lookups are unbounded */
+const MAX_ENTRIES = 200;
+
+interface CacheEntry<T> {
+  data: T;
+  fetchedAt: number;
+}
+
+export interface CachedResult<T> {
+  data: T;
+  /** True when the upstream failed and this is the last good response */
+  stale: boolean;
+  /** Seconds since the data was fetched from upstream */
+  age: number;
+}
+
+const entries = new Map<string, CacheEntry<unknown>>();
+
+function remember<T>(key: string, data: T): void {
+  // Re-insert so the Map's iteration order doubles as recency order
+  entries.delete(key);
+  entries.set(key, { data, fetchedAt: Date.now() });
+  if (entries.size > MAX_ENTRIES) {
+    const oldest = entries.keys().next().value;
+    if (oldest !== undefined) entries.delete(oldest);
+  }
+}
+
+/**
+ * Run an upstream call and remember its result. If the call
+ * throws and a previous result exists, serve that instead
+ * (stale); with nothing cached, the error propagates.
+ */
+export async function withLastGood<T>(
+  key: string,
+  load: () => Promise<T>
+): Promise<CachedResult<T>> {
+  try {
+    const data = await load();
+    remember(key, data);
+    return { data, stale: false, age: 0 };
+  } catch (error) {
+    const cached = entries.get(key) as CacheEntry<T> | undefined;
+    if (!cached) throw error;
+
+    console.error(`Upstream failed for "${key}", serving cached copy:`, error);
+    return {
+      data: cached.data,
+      stale: true,
+      age: Math.round((Date.now() - cached.fetchedAt) / 1000),
+    };
+  }
+}
+
+/** Response headers describing a cached result's freshness */
+export function freshnessHeaders(result: CachedResult<unknown>): Record<string, string> {
+  return result.stale ? { [DATA_AGE_HEADER]: String(result.age) } : {};
+}
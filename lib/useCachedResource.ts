@@ -0,0 +1,68 @@
+/**
+ * ═══════════════════════════════════════════════════
+ * useCachedResource Hook
+ * Reads a resource through the client data cache
+ * (lib/dataCache) for the GitHub-backed channels.
+ * ═══════════════════════════════════════════════════
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { isFresh, readEntry, revalidate, type CachedResource } from './dataCache';
+import type { GitHubFetchError } from './githubApi';
+
+interface CachedResourceState<T> {
+  key: string;
+  data: T | null;
+  error: GitHubFetchError | null;
+}
+
+/**
+ * Read a resource through the cache. Cached data renders
+ * immediately and is revalidated in the background when
+ * stale; errors only surface when there is nothing cached
+ * to show. `retry` refetches after an error.
+ */
+export function useCachedResource<T>(resource: CachedResource<T>) {
+  const { key } = resource;
+  const loadRef = useRef(resource.load);
+  loadRef.current = resource.load;
+
+  const [state, setState] = useState<CachedResourceState<T>>(() => ({
+    key,
+    data: readEntry<T>(key)?.data ?? null,
+    error: null,
+  }));
+  const [attempt, setAttempt] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    const cached = readEntry<T>(key);
+    setState({ key, data: cached?.data ?? null, error: null });
+    if (cached && isFresh(cached)) return;
+
+    revalidate({ key, load: loadRef.current }).then((result) => {
+      if (cancelled) return;
+      if (result.ok) {
+        setState({ key, data: result.data, error: null });
+      } else if (!cached) {
+        setState({ key, data: null, error: result.error });
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [key, attempt]);
+
+  const retry = useCallback(() => setAttempt((n) => n + 1), []);
+
+  // Until the effect catches up with a new key, read it straight from the cache
+  const current =
+    state.key === key ? state : { key, data: readEntry<T>(key)?.data ?? null, error: null };
+
+  return {
+    data: current.data,
+    error: current.error,
+    loading: current.data === null && current.error === null,
+    retry,
+  };
+}
@@ -0,0 +1,105 @@
+/**
+ * ═══════════════════════════════════════════════════
+ * Channel Keypad Hook
+ * TV-remote style direct tuning: digits collect in an
+ * on-screen "CH 1_" entry and are committed after a
+ * short pause, on Enter, or as soon as no longer channel
+ * number could start with them. Shared by the keyboard
+ * handler and the mobile remote keypad.
+ * ═══════════════════════════════════════════════════
+ */
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { channels, getChannel } from './channelData';
+
+/** Digits shown in the entry OSD — always at least two, like a real set */
+export const KEYPAD_MAX_DIGITS = Math.max(2, String(channels.length).length);
+
+/** Pause after the last digit before the entry is committed */
+const COMMIT_DELAY = 1500;
+
+/** How long an invalid entry stays on screen */
+const ERROR_DURATION = 1500;
+
+/** Whether appending another digit could still name a channel */
+function canTakeMoreDigits(digits: string): boolean {
+  return (
+    digits.length < KEYPAD_MAX_DIGITS &&
+    parseInt(`${digits}0`, 10) <= channels.length
+  );
+}
+
+export function useChannelKeypad(onTune: (channel: number) => void) {
+  const [entry, setEntry] = useState('');
+  const [invalidEntry, setInvalidEntry] = useState<string | null>(null);
+
+  // Refs mirror state so timer callbacks always see the latest values
+  const entryRef = useRef('');
+  const onTuneRef = useRef(onTune);
+  const commitTimerRef = useRef<NodeJS.Timeout | null>(null);
+  const errorTimerRef = useRef<NodeJS.Timeout | null>(null);
+
+  useEffect(() => {
+    onTuneRef.current = onTune;
+  }, [onTune]);
+
+  const updateEntry = useCallback((value: string) => {
+    entryRef.current = value;
+    setEntry(value);
+  }, []);
+
+  const clearTimers = useCallback(() => {
+    if (commitTimerRef.current) {
+      clearTimeout(commitTimerRef.current);
+      commitTimerRef.current = null;
+    }
+    if (errorTimerRef.current) {
+      clearTimeout(errorTimerRef.current);
+      errorTimerRef.current = null;
+    }
+  }, []);
+
+  /** Tune to the collected digits, or flag them as invalid */
+  const commit = useCallback(() => {
+    clearTimers();
+    const digits = entryRef.current;
+    if (!digits) return;
+    updateEntry('');
+
+    const channel = parseInt(digits, 10);
+    if (getChannel(channel)) {
+      setInvalidEntry(null);
+      onTuneRef.current(channel);
+    } else {
+      setInvalidEntry(digits);
+      errorTimerRef.current = setTimeout(() => setInvalidEntry(null), ERROR_DURATION);
+    }
+  }, [clearTimers, updateEntry]);
+
+  const pressDigit = useCallback(
+    (digit: number) => {
+      clearTimers();
+      setInvalidEntry(null);
+      const digits = `${entryRef.current}${digit}`;
+      updateEntry(digits);
+
+      if (canTakeMoreDigits(digits)) {
+        commitTimerRef.current = setTimeout(commit, COMMIT_DELAY);
+      } else {
+        commit();
+      }
+    },
+    [clearTimers, updateEntry, commit]
+  );
+
+  /** Drop any pending entry and error */
+  const cancel = useCallback(() => {
+    clearTimers();
+    updateEntry('');
+    setInvalidEntry(null);
+  }, [clearTimers, updateEntry]);
+
+  useEffect(() => clearTimers, [clearTimers]);
+
+  return { entry, invalidEntry, pressDigit, commit, cancel };
+}
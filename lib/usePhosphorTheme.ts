@@ -0,0 +1,20 @@
+/**
+ * ═══════════════════════════════════════════════════
+ * usePhosphorTheme
+ * Context carrying the active phosphor theme from
+ * CRTMonitor down to the bezel, dial, boot sequence and
+ * channels. Kept apart from lib/phosphorThemes so the
+ * server-rendered transcript never pulls in React state.
+ * ═══════════════════════════════════════════════════
+ */
+
+import { createContext, useContext } from 'react';
+import { DEFAULT_PHOSPHOR_THEME, phosphorThemes, type PhosphorTheme } from './phosphorThemes';
+
+export const PhosphorThemeContext = createContext<PhosphorTheme>(
+  phosphorThemes[DEFAULT_PHOSPHOR_THEME]
+);
+
+export function usePhosphorTheme(): PhosphorTheme {
+  return useContext(PhosphorThemeContext);
+}
@@ -0,0 +1,327 @@
+/**
+ * ═══════════════════════════════════════════════════
+ * Rotary Knob Hook
+ * The feel of a detented knob, shared by the channel
+ * dial and the volume knob: drag around the centre,
+ * mouse wheel or trackpad, and a flick that coasts on
+ * until friction stops it (not in reduced motion).
+ * Each detent clicks, with a haptic tick on devices
+ * that can vibrate, and reports one step.
+ *
+ * A knob with a `range` has end stops and won't turn
+ * past them. A knob with `fine` handlers also turns
+ * freely with Shift held — no detents, just its angle
+ * and a quiet tick now and then — and can be left
+ * between detents while `holding` is set.
+ * ═══════════════════════════════════════════════════
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useReducedMotionConfig } from 'framer-motion';
+import { playDialClick } from './soundEffects';
+import { hapticTick } from './haptics';
+
+export interface RotaryKnobFineTurn {
+  /** Free-turning ticks per detent */
+  ticksPerStep: number;
+  /** The knob's angle after each free turn */
+  onTurn: (rotation: number) => void;
+  /** A tick's worth of free turning — the knob plays its own click */
+  onTick: (rotation: number) => void;
+  /** The free turn is over (released, or Shift let go) */
+  onEnd: () => void;
+}
+
+interface RotaryKnobOptions {
+  /** Detent the knob rests on */
+  position: number;
+  degreesPerStep: number;
+  /** Lowest and highest detent, for a knob with end stops */
+  range?: [number, number];
+  /** A detent was crossed: the position it's now on, and which way */
+  onStep: (position: number, direction: 1 | -1) => void;
+  fine?: RotaryKnobFineTurn;
+  /** Leave the knob where a free turn put it instead of on `position` */
+  holding?: boolean;
+}
+
+/** Wheel: degrees per scrolled pixel (a ~100px notch is about 45°) */
+const WHEEL_DEGREES_PER_PIXEL = 0.45;
+/** Pixels per line for wheels that scroll in lines (Firefox) */
+const WHEEL_LINE_HEIGHT = 16;
+/** Shift + wheel turns freely, and slower */
+const WHEEL_FINE_SCALE = 0.25;
+/** The wheel gesture is over once it's been quiet this long (ms) */
+const WHEEL_IDLE_MS = 150;
+
+/** Inertia: release speed that starts a coast, and when it stops (°/ms) */
+const MIN_FLICK_SPEED = 0.3;
+const MIN_COAST_SPEED = 0.02;
+const MAX_COAST_SPEED = 2;
+/** Speed kept per 16ms frame while coasting */
+const FRICTION = 0.94;
+/** A pause this long before release means no flick (ms) */
+const FLICK_WINDOW_MS = 80;
+
+export function useRotaryKnob({
+  position,
+  degreesPerStep,
+  range,
+  onStep,
+  fine,
+  holding = false,
+}: RotaryKnobOptions) {
+  const knobRef = useRef<HTMLDivElement>(null);
+  const isDragging = useRef(false);
+  const isFineTurning = useRef(false);
+  const lastAngle = useRef(0);
+  const accumulatedRotation = useRef(0);
+  const reducedMotion = useReducedMotionConfig();
+
+  // Flick tracking: smoothed speed (°/ms) and when the pointer last moved
+  const velocity = useRef(0);
+  const lastMoveTime = useRef(0);
+  const coastFrame = useRef<number | null>(null);
+  const wheelIdleTimer = useRef<NodeJS.Timeout | null>(null);
+
+  // The detent the knob has stepped to — ahead of the prop mid-spin
+  const positionRef = useRef(position);
+  positionRef.current = position;
+  const onStepRef = useRef(onStep);
+  onStepRef.current = onStep;
+  const fineRef = useRef(fine);
+  fineRef.current = fine;
+
+  const [rotation, setRotation] = useState(position * degreesPerStep);
+  // Mirrors `rotation` so a gesture can read it between renders
+  const rotationRef = useRef(rotation);
+
+  const rotateTo = useCallback((value: number) => {
+    rotationRef.current = value;
+    setRotation(value);
+  }, []);
+
+  // Follow the position from outside, unless a free turn is holding the knob
+  useEffect(() => {
+    if (holding) return;
+    accumulatedRotation.current = 0;
+    rotateTo(position * degreesPerStep);
+  }, [position, degreesPerStep, holding, rotateTo]);
+
+  /**
+   * Turn the knob by `delta` degrees — the step shared by dragging,
+   * the wheel, coasting and the keyboard. Crossing a detent steps
+   * (a fast spin can cross several at once); a free turn has no
+   * detents, just the angle and a tick now and then — or on every
+   * call with `tick`, for a keyboard step smaller than a tick.
+   */
+  const turn = useCallback(
+    (delta: number, free = false, tick = false) => {
+      const fineTurn = fineRef.current;
+      if (free && fineTurn) {
+        isFineTurning.current = true;
+        accumulatedRotation.current += delta;
+        rotateTo(rotationRef.current + delta);
+        if (
+          tick ||
+          Math.abs(accumulatedRotation.current) >= degreesPerStep / fineTurn.ticksPerStep
+        ) {
+          fineTurn.onTick(rotationRef.current);
+          accumulatedRotation.current = 0;
+        }
+        fineTurn.onTurn(rotationRef.current);
+        return;
+      }
+
+      // End stops: the knob goes no further than its first and last detent
+      if (range) {
+        const min = range[0] * degreesPerStep;
+        const max = range[1] * degreesPerStep;
+        const target = Math.max(min, Math.min(max, rotationRef.current + delta));
+        delta = target - rotationRef.current;
+      }
+
+      accumulatedRotation.current += delta;
+      rotateTo(rotationRef.current + delta);
+
+      while (Math.abs(accumulatedRotation.current) >= degreesPerStep) {
+        const direction = accumulatedRotation.current > 0 ? 1 : -1;
+        positionRef.current += direction;
+        onStepRef.current(positionRef.current, direction);
+        playDialClick();
+        hapticTick();
+        accumulatedRotation.current -= direction * degreesPerStep;
+      }
+    },
+    [degreesPerStep, range, rotateTo]
+  );
+
+  /** Settle onto the knob's detent after a partial turn */
+  const settle = useCallback(() => {
+    accumulatedRotation.current = 0;
+    rotateTo(positionRef.current * degreesPerStep);
+  }, [degreesPerStep, rotateTo]);
+
+  /**
+   * Hand a finished free turn to `fine.onEnd` — or, if fine turning
+   * was taken away mid-turn, put the knob back on its detent
+   */
+  const finishFineTurn = useCallback(() => {
+    isFineTurning.current = false;
+    if (fineRef.current) fineRef.current.onEnd();
+    else settle();
+  }, [settle]);
+
+  /** End a free turn that isn't a drag (Shift released, wheel at rest) */
+  const endFineTurn = useCallback(() => {
+    if (!isFineTurning.current || isDragging.current) return;
+    finishFineTurn();
+  }, [finishFineTurn]);
+
+  // Latest handlers for the coast loop and the native wheel listener
+  const turnRef = useRef(turn);
+  turnRef.current = turn;
+  const settleRef = useRef(settle);
+  settleRef.current = settle;
+  const endFineTurnRef = useRef(endFineTurn);
+  endFineTurnRef.current = endFineTurn;
+
+  const stopCoast = useCallback(() => {
+    if (coastFrame.current !== null) cancelAnimationFrame(coastFrame.current);
+    coastFrame.current = null;
+  }, []);
+
+  /** Let a flicked knob spin on, slowing by FRICTION each frame */
+  const coast = useCallback(() => {
+    let last = performance.now();
+    const step = (now: number) => {
+      const elapsed = now - last;
+      last = now;
+      velocity.current *= Math.pow(FRICTION, elapsed / 16);
+      if (Math.abs(velocity.current) < MIN_COAST_SPEED) {
+        coastFrame.current = null;
+        settleRef.current();
+        return;
+      }
+      turnRef.current(velocity.current * elapsed);
+      coastFrame.current = requestAnimationFrame(step);
+    };
+    coastFrame.current = requestAnimationFrame(step);
+  }, []);
+
+  // Wheel and trackpad. Attached natively: React's wheel listener is
+  // passive, and the page mustn't scroll while the knob turns.
+  useEffect(() => {
+    const knob = knobRef.current;
+    if (!knob) return;
+
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      stopCoast();
+      const scale = e.deltaMode === WheelEvent.DOM_DELTA_LINE ? WHEEL_LINE_HEIGHT : 1;
+      // Scrolling up or right turns the knob clockwise
+      const pixels = Math.abs(e.deltaY) >= Math.abs(e.deltaX) ? -e.deltaY : e.deltaX;
+      const free = e.shiftKey && Boolean(fineRef.current);
+      turnRef.current(
+        pixels * scale * WHEEL_DEGREES_PER_PIXEL * (free ? WHEEL_FINE_SCALE : 1),
+        free
+      );
+
+      // Settle (or end the free turn) once the wheel rests
+      if (wheelIdleTimer.current) clearTimeout(wheelIdleTimer.current);
+      wheelIdleTimer.current = setTimeout(() => {
+        wheelIdleTimer.current = null;
+        if (free) endFineTurnRef.current();
+        else settleRef.current();
+      }, WHEEL_IDLE_MS);
+    };
+
+    knob.addEventListener('wheel', handleWheel, { passive: false });
+    return () => {
+      knob.removeEventListener('wheel', handleWheel);
+      if (wheelIdleTimer.current) clearTimeout(wheelIdleTimer.current);
+      stopCoast();
+    };
+  }, [stopCoast]);
+
+  /** Angle from the knob's centre to the pointer */
+  const getAngle = useCallback((clientX: number, clientY: number): number => {
+    if (!knobRef.current) return 0;
+    const rect = knobRef.current.getBoundingClientRect();
+    const centerX = rect.left + rect.width / 2;
+    const centerY = rect.top + rect.height / 2;
+    return Math.atan2(clientY - centerY, clientX - centerX) * (180 / Math.PI);
+  }, []);
+
+  /** Start tracking rotation (catching a coasting knob) */
+  const onPointerDown = useCallback(
+    (e: React.PointerEvent) => {
+      stopCoast();
+      // Start from the detent, or from wherever a free turn left the knob
+      if (holding) accumulatedRotation.current = 0;
+      else settle();
+      isDragging.current = true;
+      isFineTurning.current = e.shiftKey && Boolean(fineRef.current);
+      lastAngle.current = getAngle(e.clientX, e.clientY);
+      velocity.current = 0;
+      lastMoveTime.current = e.timeStamp;
+      (e.target as HTMLElement).setPointerCapture(e.pointerId);
+    },
+    [getAngle, holding, settle, stopCoast]
+  );
+
+  /** Rotate with the pointer */
+  const onPointerMove = useCallback(
+    (e: React.PointerEvent) => {
+      if (!isDragging.current) return;
+
+      const currentAngle = getAngle(e.clientX, e.clientY);
+      let delta = currentAngle - lastAngle.current;
+
+      // Handle angle wrapping at ±180°
+      if (delta > 180) delta -= 360;
+      if (delta < -180) delta += 360;
+
+      lastAngle.current = currentAngle;
+
+      // Smoothed angular speed, for a flick on release
+      const elapsed = e.timeStamp - lastMoveTime.current;
+      if (elapsed > 0) {
+        velocity.current = velocity.current * 0.2 + (delta / elapsed) * 0.8;
+        lastMoveTime.current = e.timeStamp;
+      }
+
+      turn(delta, isFineTurning.current);
+    },
+    [getAngle, turn]
+  );
+
+  /** Stop tracking, then coast or snap */
+  const onPointerUp = useCallback(
+    (e: React.PointerEvent) => {
+      isDragging.current = false;
+      // A free-turned knob stays where it was left
+      if (isFineTurning.current) {
+        finishFineTurn();
+        return;
+      }
+
+      const speed = e.timeStamp - lastMoveTime.current > FLICK_WINDOW_MS ? 0 : velocity.current;
+      if (!reducedMotion && Math.abs(speed) >= MIN_FLICK_SPEED) {
+        velocity.current = Math.max(-MAX_COAST_SPEED, Math.min(MAX_COAST_SPEED, speed));
+        coast();
+        return;
+      }
+      settle();
+    },
+    [coast, finishFineTurn, reducedMotion, settle]
+  );
+
+  return {
+    knobRef,
+    rotation,
+    turn,
+    endFineTurn,
+    handlers: { onPointerDown, onPointerMove, onPointerUp },
+  };
+}
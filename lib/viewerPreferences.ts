@@ -0,0 +1,108 @@
+/**
+ * ═══════════════════════════════════════════════════
+ * Viewer Preferences
+ * Theme, last channel, volume, mute, quick start,
+ * motion and TV menu settings, remembered in
+ * localStorage between visits. The stored blob carries
+ * a schema version, and a blob from any other version
+ * is ignored. New fields only need a default: every
+ * field is checked on the way in, so a missing,
+ * hand-edited or corrupt entry falls back to defaults
+ * instead of breaking the TV.
+ *
+ * Reading only happens after mount (see CRTMonitor), so
+ * the server render and the first client render agree.
+ * ═══════════════════════════════════════════════════
+ */
+
+import { getChannel } from './channelData';
+import { MOTION_PREFERENCES, type MotionPreference } from './motionSafety';
+import {
+  DEFAULT_PHOSPHOR_THEME,
+  isPhosphorThemeId,
+  type PhosphorThemeId,
+} from './phosphorThemes';
+import { defaultTVSettings, sanitizeTVSettings, type TVSettings } from './tvSettings';
+
+export interface ViewerPreferences {
+  theme: PhosphorThemeId;
+  /** Channel showing when the visitor left, if any */
+  lastChannel: number | null;
+  /** Music volume, 0–1 */
+  volume: number;
+  muted: boolean;
+  /** Power straight on to the last channel, without the boot sequence */
+  skipBoot: boolean;
+  motion: MotionPreference;
+  /** Picture and sound settings from the OSD menu */
+  settings: TVSettings;
+}
+
+export const defaultPreferences: ViewerPreferences = {
+  theme: DEFAULT_PHOSPHOR_THEME,
+  lastChannel: null,
+  volume: 0.5,
+  muted: false,
+  skipBoot: false,
+  motion: 'system',
+  settings: defaultTVSettings,
+};
+
+const STORAGE_KEY = 'tv-preferences';
+
+/** Bump only when a stored field changes meaning */
+const PREFERENCES_VERSION = 1;
+
+interface StoredPreferences {
+  version: number;
+  preferences: Record<string, unknown>;
+}
+
+/** Keep each stored field only if it still makes sense */
+function sanitize(raw: Record<string, unknown>): ViewerPreferences {
+  const { theme, lastChannel, volume, muted, skipBoot, motion, settings } = raw;
+  return {
+    theme: isPhosphorThemeId(theme) ? theme : defaultPreferences.theme,
+    lastChannel:
+      typeof lastChannel === 'number' && getChannel(lastChannel) ? lastChannel : null,
+    volume:
+      typeof volume === 'number' && volume >= 0 && volume <= 1
+        ? volume
+        : defaultPreferences.volume,
+    muted: typeof muted === 'boolean' ? muted : defaultPreferences.muted,
+    skipBoot: typeof skipBoot === 'boolean' ? skipBoot : defaultPreferences.skipBoot,
+    motion: MOTION_PREFERENCES.includes(motion as MotionPreference)
+      ? (motion as MotionPreference)
+      : defaultPreferences.motion,
+    settings: sanitizeTVSettings(settings),
+  };
+}
+
+/** Saved preferences, or null on a first visit (or when storage is unusable) */
+export function readPreferences(): ViewerPreferences | null {
+  if (typeof window === 'undefined') return null;
+
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    if (!stored) return null;
+    const parsed = JSON.parse(stored) as Partial<StoredPreferences>;
+    if (parsed.version !== PREFERENCES_VERSION || typeof parsed.preferences !== 'object') {
+      return null;
+    }
+    return sanitize(parsed.preferences ?? {});
+  } catch {
+    return null;
+  }
+}
+
+export function writePreferences(preferences: ViewerPreferences): void {
+  const stored: StoredPreferences = {
+    version: PREFERENCES_VERSION,
+    preferences: { ...preferences },
+  };
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+  } catch {
+    // Private mode or storage full — preferences just won't stick
+  }
+}
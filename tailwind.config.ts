@@ -13,7 +13,8 @@ const config: Config = {
           amber: '#ff9f43',
           dim: '#cc7722',
           bright: '#ffb366',
-          dark: '#0a0a0a',
+          // Follows the phosphor theme (see lib/phosphorThemes)
+          dark: 'var(--crt-background)',
           bezel: '#1a1612',
           'bezel-light': '#2a2318',
           green: '#33ff33',